@@ -0,0 +1,61 @@
+/**
+ * Workers AI calls routed through the AIGate Durable Object
+ *
+ * All env.AI.run calls go through runAI so the free tier's concurrency limit is enforced in one
+ * place. Streaming calls return the ReadableStream from the gate unchanged.
+ */
+
+import type { Env, AIPriority } from './types';
+
+// A single gate instance serialises every AI call for the account
+const AI_GATE_NAME = 'global';
+
+export interface AIRunOptions {
+  priority?: AIPriority;
+  timeoutMs?: number;
+}
+
+export async function runAI(
+  env: Env,
+  model: string,
+  params: Record<string, any>,
+  options: AIRunOptions = {}
+): Promise<any> {
+  // Without the gate binding (e.g. a partial local setup) call the model directly
+  if (!env.AI_GATE) {
+    return await env.AI.run(model, params);
+  }
+
+  const gate = env.AI_GATE.get(env.AI_GATE.idFromName(AI_GATE_NAME));
+  const response = await gate.fetch('https://ai-gate/queue', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model,
+      params,
+      priority: options.priority || 'interactive',
+      timeoutMs: options.timeoutMs,
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(body?.error || `AI gate request failed with status ${response.status}`);
+  }
+
+  if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return response.body;
+  }
+
+  return await response.json();
+}
+
+export async function getAIGateStatus(env: Env): Promise<Record<string, any> | null> {
+  if (!env.AI_GATE) {
+    return null;
+  }
+
+  const gate = env.AI_GATE.get(env.AI_GATE.idFromName(AI_GATE_NAME));
+  const response = await gate.fetch('https://ai-gate/status');
+  return await response.json() as Record<string, any>;
+}
@@ -0,0 +1,165 @@
+/**
+ * Answer feedback and retrieval-quality analytics
+ *
+ * /rag retrievals and the documents each answer cites are logged in the QueryLog Durable Object
+ * (one instance per workspace); without the QUERY_LOG binding nothing is logged. Feedback on
+ * session turns is stored in DOC_METADATA under __feedback__:<sessionId>:<seq>, one record per
+ * turn, together with the chunks that were retrieved for it.
+ */
+
+import type { Env, Citation, QueryLogEntry, DocumentCitationStats, FeedbackRecord } from './types';
+import { currentWorkspaceId, workspaceKey, listWorkspaceKeys } from './workspaces';
+
+const FEEDBACK_KEY_PREFIX = '__feedback__:';
+
+// Default top score below which a query counts as poorly answered by the notebook
+export const DEFAULT_LOW_SCORE_THRESHOLD = 0.5;
+export const MAX_REPORT_ITEMS = 100;
+
+export interface QueryGroup {
+  query: string;
+  count: number;
+  bestScore: number | null;
+  lastAskedAt: string;
+}
+
+export interface AnalyticsReport {
+  workspaceId: string;
+  generatedAt: string;
+  queryLog: {
+    available: boolean; // False without the QUERY_LOG binding
+    entries: number;
+    since: string | null;
+  };
+  zeroHitQueries: QueryGroup[];
+  lowScoreQueries: QueryGroup[];
+  mostCitedDocuments: DocumentCitationStats[];
+  feedback: { up: number; down: number };
+  downvotedAnswers: FeedbackRecord[];
+}
+
+async function queryLogRequest<T>(env: Env, workspaceId: string, path: string, body?: unknown): Promise<T | null> {
+  if (!env.QUERY_LOG) {
+    return null;
+  }
+
+  const log = env.QUERY_LOG.get(env.QUERY_LOG.idFromName(workspaceId));
+  const response = await log.fetch(`https://query-log${path}`, body === undefined ? undefined : {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(error?.error || `Query log request failed with status ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+export async function recordQuery(env: Env, entry: Omit<QueryLogEntry, 'at'>): Promise<void> {
+  try {
+    await queryLogRequest(env, currentWorkspaceId(env), '/query', { entry: { ...entry, at: new Date().toISOString() } });
+  } catch (error) {
+    // Analytics must never fail an answer
+    console.error('Record query error:', error);
+  }
+}
+
+export async function recordCitedDocuments(env: Env, citations: Citation[]): Promise<void> {
+  const documents = citations
+    .filter(citation => citation.source.documentId)
+    .map(citation => ({ documentId: citation.source.documentId!, documentName: citation.source.documentName }));
+  if (documents.length === 0) {
+    return;
+  }
+
+  try {
+    await queryLogRequest(env, currentWorkspaceId(env), '/citations', { documents });
+  } catch (error) {
+    console.error('Record citations error:', error);
+  }
+}
+
+export async function clearQueryLog(env: Env, workspaceId: string): Promise<void> {
+  await queryLogRequest(env, workspaceId, '/clear', {});
+}
+
+export async function saveFeedback(env: Env, record: FeedbackRecord): Promise<void> {
+  await env.DOC_METADATA.put(
+    workspaceKey(env, `${FEEDBACK_KEY_PREFIX}${record.sessionId}:${record.messageSeq}`),
+    JSON.stringify(record)
+  );
+}
+
+export async function listFeedback(env: Env): Promise<FeedbackRecord[]> {
+  const keys = await listWorkspaceKeys(env, FEEDBACK_KEY_PREFIX);
+  const records = await Promise.all(
+    keys.map(key => env.DOC_METADATA.get(workspaceKey(env, key), 'json') as Promise<FeedbackRecord | null>)
+  );
+  return records.filter((record): record is FeedbackRecord => record !== null);
+}
+
+/**
+ * Queries that found nothing or only weak matches, most cited documents and downvoted answers
+ * Repeated questions are grouped case-insensitively; lists are sorted by how often they occur.
+ */
+export async function buildAnalyticsReport(
+  env: Env,
+  options: { threshold?: number; limit?: number } = {}
+): Promise<AnalyticsReport> {
+  const { threshold = DEFAULT_LOW_SCORE_THRESHOLD, limit = 20 } = options;
+  const workspaceId = currentWorkspaceId(env);
+
+  const [entriesResponse, documentsResponse, feedback] = await Promise.all([
+    queryLogRequest<{ entries: QueryLogEntry[] }>(env, workspaceId, '/entries'),
+    queryLogRequest<{ documents: DocumentCitationStats[] }>(env, workspaceId, '/documents'),
+    listFeedback(env),
+  ]);
+  const entries = entriesResponse?.entries || [];
+
+  return {
+    workspaceId,
+    generatedAt: new Date().toISOString(),
+    queryLog: {
+      available: entriesResponse !== null,
+      entries: entries.length,
+      since: entries[0]?.at ?? null,
+    },
+    zeroHitQueries: groupQueries(entries.filter(entry => entry.passages === 0)).slice(0, limit),
+    lowScoreQueries: groupQueries(
+      entries.filter(entry => entry.passages > 0 && entry.topScore !== null && entry.topScore < threshold)
+    ).slice(0, limit),
+    mostCitedDocuments: (documentsResponse?.documents || [])
+      .sort((a, b) => b.answers - a.answers || b.lastCitedAt.localeCompare(a.lastCitedAt))
+      .slice(0, limit),
+    feedback: {
+      up: feedback.filter(record => record.rating === 'up').length,
+      down: feedback.filter(record => record.rating === 'down').length,
+    },
+    downvotedAnswers: feedback
+      .filter(record => record.rating === 'down')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit),
+  };
+}
+
+function groupQueries(entries: QueryLogEntry[]): QueryGroup[] {
+  const groups = new Map<string, QueryGroup>();
+
+  for (const entry of entries) {
+    const key = entry.standalone.trim().toLowerCase();
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { query: entry.standalone, count: 1, bestScore: entry.topScore, lastAskedAt: entry.at });
+      continue;
+    }
+    group.count++;
+    group.lastAskedAt = entry.at > group.lastAskedAt ? entry.at : group.lastAskedAt;
+    if (entry.topScore !== null && (group.bestScore === null || entry.topScore > group.bestScore)) {
+      group.bestScore = entry.topScore;
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt));
+}
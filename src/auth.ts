@@ -0,0 +1,182 @@
+/**
+ * API key authentication with scoped permissions
+ *
+ * Keys look like iplc_<keyId>_<secret>. Only the SHA-256 hash of the full key is stored, under
+ * __apikey__:<keyId> in DOC_METADATA. The ADMIN_API_KEY secret is always accepted with every
+ * scope so the first keys can be issued.
+ */
+
+import type { Env, ApiKeyScope, ApiKeyRecord, RateLimitClass, RateLimitRule } from './types';
+import { listAllKeys } from './kv';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'write', 'delete', 'admin'];
+
+const API_KEY_RECORD_PREFIX = '__apikey__:';
+const API_KEY_PATTERN = /^iplc_([a-f0-9]{12})_[a-f0-9]{64}$/;
+
+export interface Principal {
+  keyId: string; // 'admin' for the ADMIN_API_KEY secret
+  name: string;
+  scopes: ApiKeyScope[];
+  workspaceIds?: string[];
+  rateLimits?: Partial<Record<RateLimitClass, RateLimitRule>>;
+}
+
+export type AuthResult =
+  | { ok: true; principal: Principal }
+  | { ok: false; status: 401 | 403; error: string };
+
+// Public view of a key record, without the hash
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'hash'>;
+
+export function hasScope(principal: Principal, scope: ApiKeyScope): boolean {
+  return principal.scopes.includes('admin') || principal.scopes.includes(scope);
+}
+
+export function canAccessWorkspace(principal: Principal, workspaceId: string): boolean {
+  return !principal.workspaceIds || principal.workspaceIds.includes(workspaceId);
+}
+
+// Whether the principal may issue a key for these workspaces (undefined meaning all of them)
+export function canGrantWorkspaces(principal: Principal, workspaceIds: string[] | undefined): boolean {
+  return !principal.workspaceIds || (workspaceIds !== undefined && workspaceIds.every(id => canAccessWorkspace(principal, id)));
+}
+
+/**
+ * Read the API key from "Authorization: Bearer <key>" or the X-API-Key header
+ */
+export function extractApiKey(request: Request): string | null {
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice(7).trim();
+  }
+  return request.headers.get('X-API-Key');
+}
+
+/**
+ * Authenticate the request and check it carries the required scope
+ */
+export async function authenticate(request: Request, env: Env, requiredScope: ApiKeyScope): Promise<AuthResult> {
+  const apiKey = extractApiKey(request);
+  if (!apiKey) {
+    return { ok: false, status: 401, error: 'Missing API key' };
+  }
+
+  const principal = await resolvePrincipal(apiKey, env);
+  if (!principal) {
+    return { ok: false, status: 401, error: 'Invalid API key' };
+  }
+
+  if (!hasScope(principal, requiredScope)) {
+    return { ok: false, status: 403, error: `API key lacks required scope: ${requiredScope}` };
+  }
+
+  return { ok: true, principal };
+}
+
+async function resolvePrincipal(apiKey: string, env: Env): Promise<Principal | null> {
+  const hash = await sha256Hex(apiKey);
+
+  if (env.ADMIN_API_KEY && timingSafeEqual(hash, await sha256Hex(env.ADMIN_API_KEY))) {
+    return { keyId: 'admin', name: 'ADMIN_API_KEY', scopes: ['admin'] };
+  }
+
+  const match = apiKey.match(API_KEY_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const record = await env.DOC_METADATA.get(API_KEY_RECORD_PREFIX + match[1], 'json') as ApiKeyRecord | null;
+  // A record without a hash is not a key record (e.g. overwritten before document IDs were checked)
+  if (!record || record.revokedAt || typeof record.hash !== 'string' || !timingSafeEqual(hash, record.hash)) {
+    return null;
+  }
+
+  return {
+    keyId: record.id,
+    name: record.name,
+    scopes: record.scopes,
+    workspaceIds: record.workspaceIds,
+    rateLimits: record.rateLimits,
+  };
+}
+
+/**
+ * Issue a new key; the plaintext key is only ever returned here
+ */
+export async function issueApiKey(
+  env: Env,
+  options: {
+    name: string;
+    scopes: ApiKeyScope[];
+    workspaceIds?: string[];
+    rateLimits?: Partial<Record<RateLimitClass, RateLimitRule>>;
+  }
+): Promise<{ key: string; record: ApiKeyInfo }> {
+  const id = randomHex(6);
+  const key = `iplc_${id}_${randomHex(32)}`;
+
+  const record: ApiKeyRecord = {
+    id,
+    name: options.name,
+    scopes: options.scopes,
+    ...(options.workspaceIds ? { workspaceIds: options.workspaceIds } : {}),
+    ...(options.rateLimits ? { rateLimits: options.rateLimits } : {}),
+    hash: await sha256Hex(key),
+    createdAt: new Date().toISOString(),
+  };
+
+  await env.DOC_METADATA.put(API_KEY_RECORD_PREFIX + id, JSON.stringify(record));
+
+  const { hash, ...info } = record;
+  return { key, record: info };
+}
+
+export async function listApiKeys(env: Env): Promise<ApiKeyInfo[]> {
+  const keys = await listAllKeys(env.DOC_METADATA, API_KEY_RECORD_PREFIX);
+  const records = await Promise.all(
+    keys.map(key => env.DOC_METADATA.get(key, 'json') as Promise<ApiKeyRecord | null>)
+  );
+
+  return records
+    .filter((record): record is ApiKeyRecord => record !== null)
+    .map(({ hash, ...info }) => info);
+}
+
+/**
+ * Revoke a key; the record is kept (with revokedAt) so the key stays listed for auditing
+ */
+export async function revokeApiKey(env: Env, keyId: string): Promise<{ success: boolean; error?: string }> {
+  const record = await env.DOC_METADATA.get(API_KEY_RECORD_PREFIX + keyId, 'json') as ApiKeyRecord | null;
+  if (!record) {
+    return { success: false, error: `API key ${keyId} not found` };
+  }
+
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    await env.DOC_METADATA.put(API_KEY_RECORD_PREFIX + keyId, JSON.stringify(record));
+  }
+
+  return { success: true };
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function randomHex(bytes: number): string {
+  return [...crypto.getRandomValues(new Uint8Array(bytes))].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Compare equal-length hex digests without short-circuiting
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
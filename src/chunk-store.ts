@@ -0,0 +1,52 @@
+/**
+ * Per-document chunk storage in KV (scoped to the current workspace)
+ *
+ * Vectorize only returns metadata for matched vectors, so the full text of every chunk is also
+ * kept here, one entry per document. The lexical index reads the term frequencies stored with
+ * each chunk.
+ */
+
+import type { Env } from './types';
+import { workspaceKey, listWorkspaceKeys } from './workspaces';
+
+const CHUNKS_KEY_PREFIX = '__chunks__:';
+
+export interface StoredChunk {
+  id: string; // Vector ID in DOC_INDEX
+  text: string;
+  chunkIndex: number;
+  textIndex: number;
+  pageNumber?: number;
+  heading?: string;
+  terms: Record<string, number>; // Term frequencies for keyword search
+  length: number; // Total number of terms
+}
+
+export interface DocumentChunks {
+  documentId: string;
+  documentName: string;
+  documentType: string;
+  timestamp: string; // Ingestion time
+  metadata: Record<string, any>; // Caller-supplied metadata stored with every vector
+  chunks: StoredChunk[];
+}
+
+export async function putDocumentChunks(env: Env, record: DocumentChunks): Promise<void> {
+  await env.DOC_METADATA.put(workspaceKey(env, CHUNKS_KEY_PREFIX + record.documentId), JSON.stringify(record));
+}
+
+export async function getDocumentChunks(env: Env, documentId: string): Promise<DocumentChunks | null> {
+  return await env.DOC_METADATA.get(workspaceKey(env, CHUNKS_KEY_PREFIX + documentId), 'json') as DocumentChunks | null;
+}
+
+export async function deleteDocumentChunks(env: Env, documentId: string): Promise<void> {
+  await env.DOC_METADATA.delete(workspaceKey(env, CHUNKS_KEY_PREFIX + documentId));
+}
+
+export async function listAllDocumentChunks(env: Env): Promise<DocumentChunks[]> {
+  const keys = await listWorkspaceKeys(env, CHUNKS_KEY_PREFIX);
+  const records = await Promise.all(
+    keys.map(key => env.DOC_METADATA.get(workspaceKey(env, key), 'json') as Promise<DocumentChunks | null>)
+  );
+  return records.filter((record): record is DocumentChunks => record !== null);
+}
@@ -0,0 +1,307 @@
+/**
+ * Chunking strategies for document ingestion
+ *
+ * - sentence: packs whole sentences up to maxChunkSize characters (the original splitter)
+ * - sliding-window: fixed-size character windows over words with configurable overlap
+ * - markdown: splits on headings and keeps code blocks, tables and lists intact
+ * - token: packs sentences up to maxTokens estimated tokens with token overlap
+ */
+
+import type { ChunkStrategy, ChunkingOptions } from './types';
+import { estimateTokens } from './tokenizer';
+
+export const CHUNK_STRATEGIES: ChunkStrategy[] = ['sentence', 'sliding-window', 'markdown', 'token'];
+
+// bge-small-en-v1.5 truncates input at 512 tokens; stay below it to absorb estimation error
+export const EMBED_MAX_TOKENS = 480;
+
+// Settings used when a request does not specify them (overridable via CHUNK_* vars, see src/config.ts)
+export interface ChunkingDefaults {
+  strategy: ChunkStrategy;
+  maxChunkSize: number; // Characters, for the sentence, sliding-window and markdown strategies
+  maxTokens: number; // For the token strategy
+  charOverlap: number; // For the sliding-window strategy
+  tokenOverlap: number; // For the token strategy
+}
+
+export const DEFAULT_CHUNKING: ChunkingDefaults = {
+  strategy: 'token',
+  maxChunkSize: 1000,
+  maxTokens: 400,
+  charOverlap: 200,
+  tokenOverlap: 50,
+};
+
+export interface TextChunk {
+  text: string;
+  heading?: string;
+}
+
+export function chunkDocument(
+  text: string,
+  options: ChunkingOptions = {},
+  defaults: ChunkingDefaults = DEFAULT_CHUNKING
+): TextChunk[] {
+  const strategy = options.strategy || defaults.strategy;
+  const maxChunkSize = options.maxChunkSize || defaults.maxChunkSize;
+  const maxTokens = Math.min(options.maxTokens || defaults.maxTokens, EMBED_MAX_TOKENS);
+
+  switch (strategy) {
+    case 'sentence':
+      return chunkText(text, maxChunkSize).map(chunk => ({ text: chunk }));
+    case 'sliding-window':
+      return chunkSlidingWindow(text, maxChunkSize, options.overlap ?? defaults.charOverlap)
+        .map(chunk => ({ text: chunk }));
+    case 'markdown':
+      return chunkMarkdown(text, maxChunkSize);
+    case 'token':
+      return packUnits(splitSentences(text), estimateTokens, maxTokens, options.overlap ?? defaults.tokenOverlap, ' ')
+        .map(chunk => ({ text: chunk }));
+    default:
+      throw new Error(`Unknown chunking strategy: ${strategy}`);
+  }
+}
+
+// Chunk text into smaller pieces for embedding
+export function chunkText(text: string, maxChunkSize: number = 1000): string[] {
+  return packUnits(splitSentences(text), unit => unit.length + 1, maxChunkSize, 0, ' ');
+}
+
+export function chunkSlidingWindow(text: string, windowSize: number, overlap: number): string[] {
+  const words = text.split(/\s+/).filter(word => word.length > 0);
+  return packUnits(words, word => word.length + 1, windowSize, Math.min(overlap, windowSize / 2), ' ');
+}
+
+/**
+ * Split text into sentences, treating blank lines as hard boundaries
+ * Text without terminal punctuation is kept rather than dropped
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraph.match(/[^.!?]+(?:[.!?]+|$)/g) || [])
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+// A unit queued for packing, with the separator that joins it to the unit before it
+interface PackedUnit {
+  text: string;
+  separator: string;
+}
+
+/**
+ * Greedily pack units into chunks of at most maxSize (as measured by measure)
+ * Each new chunk repeats trailing units from the previous chunk up to overlap.
+ * Units larger than maxSize are split on whitespace, and words still larger are
+ * split by characters, so their pieces pack and overlap like any other unit.
+ */
+function packUnits(
+  units: string[],
+  measure: (unit: string) => number,
+  maxSize: number,
+  overlap: number,
+  separator: string
+): string[] {
+  const chunks: string[] = [];
+  let current: PackedUnit[] = [];
+  let currentSize = 0;
+  let carriedCount = 0;
+
+  const join = (packed: PackedUnit[]) =>
+    packed.map((unit, index) => (index === 0 ? '' : unit.separator) + unit.text).join('').trim();
+
+  const flush = () => {
+    if (current.length === 0) {
+      return;
+    }
+    chunks.push(join(current));
+
+    // Carry trailing units forward as overlap
+    const carried: PackedUnit[] = [];
+    let carriedSize = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      const size = measure(current[i].text);
+      if (carriedSize + size > overlap) {
+        break;
+      }
+      carried.unshift(current[i]);
+      carriedSize += size;
+    }
+    current = carried;
+    currentSize = carriedSize;
+    carriedCount = carried.length;
+  };
+
+  for (const unit of units.flatMap(unit => splitOversized(unit, measure, maxSize, separator))) {
+    const size = measure(unit.text);
+
+    if (currentSize + size > maxSize && current.length > 0) {
+      flush();
+      // Drop the overlap if it leaves no room for the next unit
+      if (currentSize + size > maxSize) {
+        current = [];
+        currentSize = 0;
+        carriedCount = 0;
+      }
+    }
+
+    current.push(unit);
+    currentSize += size;
+  }
+
+  // Skip a final chunk of only carried-over overlap, which is already indexed
+  if (current.length > carriedCount) {
+    chunks.push(join(current));
+  }
+
+  return chunks.filter(chunk => chunk.length > 0);
+}
+
+// Break a unit larger than maxSize into words, and words still larger into character slices
+function splitOversized(
+  unit: string,
+  measure: (unit: string) => number,
+  maxSize: number,
+  separator: string
+): PackedUnit[] {
+  if (measure(unit) <= maxSize) {
+    return [{ text: unit, separator }];
+  }
+
+  return unit
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .flatMap((word, index) => {
+      const wordSeparator = index === 0 ? separator : ' ';
+      if (measure(word) <= maxSize) {
+        return [{ text: word, separator: wordSeparator }];
+      }
+      return splitCharacters(word, measure, maxSize)
+        .map((slice, sliceIndex) => ({ text: slice, separator: sliceIndex === 0 ? wordSeparator : '' }));
+    });
+}
+
+// Cut text into the longest slices that measure at most maxSize, never between a surrogate pair
+function splitCharacters(text: string, measure: (unit: string) => number, maxSize: number): string[] {
+  const slices: string[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    let low = 1;
+    let high = rest.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (measure(rest.slice(0, mid)) <= maxSize) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (low > 1 && low < rest.length && /[\uD800-\uDBFF]/.test(rest[low - 1])) {
+      low--;
+    }
+    slices.push(rest.slice(0, low));
+    rest = rest.slice(low);
+  }
+
+  return slices;
+}
+
+type MarkdownBlockKind = 'paragraph' | 'code' | 'table' | 'list';
+
+interface MarkdownSection {
+  headings: string[];
+  blocks: string[];
+}
+
+/**
+ * Split Markdown into heading sections and pack their blocks into chunks
+ * Fenced code blocks, tables and lists are treated as single blocks; each chunk is
+ * prefixed with its heading path so the embedding keeps the section context.
+ */
+export function chunkMarkdown(text: string, maxChunkSize: number): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  for (const section of splitMarkdownSections(text)) {
+    const heading = section.headings.join(' > ') || undefined;
+    const prefix = heading ? `${heading}\n\n` : '';
+    const budget = Math.max(maxChunkSize - prefix.length, maxChunkSize / 2);
+
+    const packed = packUnits(
+      section.blocks.flatMap(block => block.length > budget ? block.split('\n') : [block]),
+      block => block.length + 2,
+      budget,
+      0,
+      '\n\n'
+    );
+
+    for (const chunk of packed) {
+      chunks.push({ text: prefix + chunk, heading });
+    }
+  }
+
+  return chunks;
+}
+
+function splitMarkdownSections(text: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const headingStack: string[] = [];
+  let current: MarkdownSection = { headings: [], blocks: [] };
+  let block: string[] = [];
+  let blockKind = null as MarkdownBlockKind | null;
+
+  const endBlock = () => {
+    const content = block.join('\n').trim();
+    if (content.length > 0) {
+      current.blocks.push(content);
+    }
+    block = [];
+    blockKind = null;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (blockKind === 'code') {
+      block.push(line);
+      if (/^\s*(```|~~~)/.test(line)) {
+        endBlock();
+      }
+      continue;
+    }
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (headingMatch) {
+      endBlock();
+      if (current.blocks.length > 0) {
+        sections.push(current);
+      }
+      const level = headingMatch[1].length;
+      headingStack.length = level - 1;
+      headingStack[level - 1] = headingMatch[2];
+      current = { headings: headingStack.filter(Boolean), blocks: [] };
+      continue;
+    }
+
+    const kind: MarkdownBlockKind | null = /^\s*(```|~~~)/.test(line) ? 'code'
+      : /^\s*\|/.test(line) ? 'table'
+      : /^\s*([-*+]|\d+[.)])\s+/.test(line) || (blockKind === 'list' && /^\s+\S/.test(line)) ? 'list'
+      : line.trim().length === 0 ? null
+      : 'paragraph';
+
+    if (kind !== blockKind || kind === null) {
+      endBlock();
+    }
+
+    if (kind !== null) {
+      block.push(line);
+      blockKind = kind;
+    }
+  }
+
+  endBlock();
+  if (current.blocks.length > 0) {
+    sections.push(current);
+  }
+
+  return sections;
+}
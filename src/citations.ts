@@ -0,0 +1,71 @@
+/**
+ * Source citations for RAG responses
+ *
+ * Retrieved chunks are numbered [1], [2], ... in the prompt; the same numbers are sent to the
+ * client as sources before the answer, and the model's inline markers are mapped back to them
+ * once the answer is complete.
+ */
+
+import type { QueryResult, SourceCitation, Citation } from './types';
+
+const SNIPPET_LENGTH = 200;
+
+export function resultText(result: QueryResult): string {
+  return result.metadata.fullChunk || result.metadata.chunk || '';
+}
+
+export function toSourceCitations(results: QueryResult[]): SourceCitation[] {
+  return results.map((result, index) => ({
+    index: index + 1,
+    vectorId: result.id,
+    documentId: result.metadata.documentId,
+    documentName: result.metadata.documentName,
+    pageNumber: result.metadata.pageNumber,
+    score: result.score,
+    ...(result.rerankScore !== undefined ? { rerankScore: result.rerankScore } : {}),
+    snippet: resultText(result).slice(0, SNIPPET_LENGTH),
+  }));
+}
+
+/**
+ * Format chunks for the prompt, each labelled with its citation number and origin
+ */
+export function formatNumberedContext(results: QueryResult[]): string {
+  return results
+    .map((result, index) => {
+      const origin = [
+        result.metadata.documentName || 'Unknown document',
+        result.metadata.pageNumber !== undefined ? `page ${result.metadata.pageNumber}` : null,
+      ].filter(Boolean).join(', ');
+      return `[${index + 1}] (${origin})\n${result.contextText ?? resultText(result)}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Find citation markers like [2] or [1, 3] in the answer and resolve them to sources
+ * Markers that do not match a source are reported separately so hallucinated citations are visible.
+ */
+export function extractCitations(answer: string, sources: SourceCitation[]): { citations: Citation[]; invalidMarkers: number[] } {
+  const counts = new Map<number, number>();
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const marker of match[1].split(',').map(value => parseInt(value.trim(), 10))) {
+      counts.set(marker, (counts.get(marker) || 0) + 1);
+    }
+  }
+
+  const citations: Citation[] = [];
+  const invalidMarkers: number[] = [];
+
+  for (const [marker, occurrences] of [...counts.entries()].sort((a, b) => a[0] - b[0])) {
+    const source = sources.find(candidate => candidate.index === marker);
+    if (source) {
+      citations.push({ marker, occurrences, source });
+    } else {
+      invalidMarkers.push(marker);
+    }
+  }
+
+  return { citations, invalidMarkers };
+}
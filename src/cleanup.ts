@@ -1,97 +1,149 @@
 /**
- * Cleanup functionality for removing old vectors and logs
- * This module handles periodic maintenance of the Vectorize index and KV storage
+ * Cleanup functionality for removing expired documents and idle sessions
+ * This module handles periodic maintenance of the Vectorize index and KV storage, following the
+ * retention policies in retention.ts. The same code produces the dry-run preview.
  */
 
-import type { VectorizeIndex, KVNamespace } from '@cloudflare/workers-types';
-import { updateVectorCount } from './vectorize';
+import type { Env, DocumentRecord } from './types';
+import { deleteDocumentVectors } from './vectorize';
+import { listWorkspaces, withWorkspace, listWorkspaceKeys, workspaceKey } from './workspaces';
+import { isInternalKey } from './kv';
+import { getRetentionPolicy, documentExpiry, sessionExpiresAt } from './retention';
+import type { RetentionRule } from './retention';
+import { listAllSessionRecords, deleteSessionByKey } from './sessions';
 
-interface CleanupEnv {
-  DOC_INDEX: VectorizeIndex;
-  DOC_METADATA: KVNamespace;
-  DOCUMENT_METADATA: KVNamespace;
-  CHAT_HISTORY: KVNamespace;
+export interface ExpiredDocument {
+  workspaceId: string;
+  documentId: string;
+  name: string;
+  type: string;
+  vectors: number;
+  rule: RetentionRule;
+  days: number | null;
+  expiresAt: string;
+}
+
+export interface ExpiredSession {
+  workspaceId: string;
+  sessionId: string;
+  lastActiveAt: string;
+  expiresAt: string;
+}
+
+export interface CleanupReport {
+  dryRun: boolean;
+  checkedAt: string;
+  documents: ExpiredDocument[];
+  sessions: ExpiredSession[];
+  documentsDeleted: number;
+  vectorsDeleted: number;
+  sessionsDeleted: number;
+  errors: string[];
+  executionTime: number;
 }
 
 /**
- * Remove vectors older than the specified age
- * @param env Worker environment bindings
- * @param maxAgeInDays Maximum age of vectors to keep
+ * Find (and unless dryRun, delete) expired documents in every workspace and idle sessions
  */
-export async function cleanupOldVectors(
-  env: CleanupEnv,
-  maxAgeInDays: number = 30
-): Promise<number> {
-  const cutoffDate = new Date();
-  cutoffDate.setDate(cutoffDate.getDate() - maxAgeInDays);
-  const cutoffTimestamp = cutoffDate.getTime();
-  
-  let deletedCount = 0;
-  
-  try {
-    // List all documents from KV metadata
-    const documents = await env.DOCUMENT_METADATA.list();
-    
-    for (const key of documents.keys) {
-      const metadata = await env.DOCUMENT_METADATA.get(key.name, 'json') as any;
-      
-      if (metadata && metadata.uploadedAt) {
-        const uploadTimestamp = new Date(metadata.uploadedAt).getTime();
-        
-        if (uploadTimestamp < cutoffTimestamp) {
-          // Delete vectors for this document
-          const vectorIds = metadata.chunks?.map((chunk: any) => chunk.id) || [];
-          
-          if (vectorIds.length > 0) {
-            try {
-              await env.DOC_INDEX.deleteByIds(vectorIds);
-              deletedCount += vectorIds.length;
-              
-              // Update vector count after successful deletion
-              await updateVectorCount(env as any, -vectorIds.length);
-            } catch (error) {
-              console.error(`Error deleting vectors for document ${key.name}:`, error);
-            }
-          }
-          
-          // Delete the metadata
-          await env.DOCUMENT_METADATA.delete(key.name);
+export async function runCleanup(env: Env, options: { dryRun: boolean; now?: Date }): Promise<CleanupReport> {
+  const startTime = Date.now();
+  const now = options.now || new Date();
+  const policy = getRetentionPolicy(env);
+  const report: CleanupReport = {
+    dryRun: options.dryRun,
+    checkedAt: now.toISOString(),
+    documents: [],
+    sessions: [],
+    documentsDeleted: 0,
+    vectorsDeleted: 0,
+    sessionsDeleted: 0,
+    errors: [],
+    executionTime: 0,
+  };
+
+  for (const workspace of await listWorkspaces(env)) {
+    const scopedEnv = withWorkspace(env, workspace);
+    const documentIds = (await listWorkspaceKeys(scopedEnv)).filter(key => !isInternalKey(key));
+
+    for (const documentId of documentIds) {
+      const record = await env.DOC_METADATA.get(workspaceKey(scopedEnv, documentId), 'json') as DocumentRecord | null;
+      if (!record) {
+        continue;
+      }
+
+      const expiry = documentExpiry(record, policy);
+      if (!expiry.expiresAt || Date.parse(expiry.expiresAt) > now.getTime()) {
+        continue;
+      }
+
+      report.documents.push({
+        workspaceId: workspace.id,
+        documentId,
+        name: record.name,
+        type: record.type,
+        vectors: record.vectorIds?.length || 0,
+        rule: expiry.rule,
+        days: expiry.days,
+        expiresAt: expiry.expiresAt,
+      });
+
+      if (!options.dryRun) {
+        // Same path as DELETE /documents: vectors, counter, chunk store and cached digests
+        const result = await deleteDocumentVectors(documentId, scopedEnv);
+        if (result.success) {
+          report.documentsDeleted++;
+          report.vectorsDeleted += result.deletedCount;
+        } else {
+          report.errors.push(`Document ${workspace.id}/${documentId}: ${result.error}`);
         }
       }
     }
-    
-    return deletedCount;
-  } catch (error) {
-    console.error('Error during vector cleanup:', error);
-    return deletedCount;
   }
-}
 
+  for (const { key, session } of await listAllSessionRecords(env)) {
+    const expiresAt = sessionExpiresAt(session.lastActiveAt, policy);
+    if (!expiresAt || Date.parse(expiresAt) > now.getTime()) {
+      continue;
+    }
+
+    report.sessions.push({
+      workspaceId: session.workspaceId,
+      sessionId: session.sessionId,
+      lastActiveAt: session.lastActiveAt,
+      expiresAt,
+    });
+
+    if (!options.dryRun) {
+      try {
+        await deleteSessionByKey(env, key);
+        report.sessionsDeleted++;
+      } catch (error) {
+        console.error(`Error deleting session ${key}:`, error);
+        report.errors.push(`Session ${session.workspaceId}/${session.sessionId}: ${error instanceof Error ? error.message : 'delete failed'}`);
+      }
+    }
+  }
+
+  report.executionTime = Date.now() - startTime;
+  return report;
+}
 
 /**
  * Main cleanup handler for scheduled execution
  * @param env Worker environment bindings
  * @returns Cleanup statistics
  */
-export async function handleScheduledCleanup(env: CleanupEnv): Promise<{
-  vectorsDeleted: number;
-  executionTime: number;
-}> {
-  const startTime = Date.now();
-  
-  // Run cleanup task
-  const vectorsDeleted = await cleanupOldVectors(env, 30); // Keep vectors for 30 days
-  
-  const executionTime = Date.now() - startTime;
+export async function handleScheduledCleanup(env: Env): Promise<CleanupReport> {
+  const report = await runCleanup(env, { dryRun: false });
   
   // Log cleanup results
   console.log(`Cleanup completed:
-    - Vectors deleted: ${vectorsDeleted}
-    - Execution time: ${executionTime}ms
+    - Documents deleted: ${report.documentsDeleted}
+    - Vectors deleted: ${report.vectorsDeleted}
+    - Sessions deleted: ${report.sessionsDeleted}
+    - Errors: ${report.errors.length}
+    - Execution time: ${report.executionTime}ms
   `);
   
-  return {
-    vectorsDeleted,
-    executionTime
-  };
-}
\ No newline at end of file
+  return report;
+}
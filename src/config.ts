@@ -0,0 +1,273 @@
+/**
+ * Typed, validated configuration read from Env vars
+ *
+ * Every tunable limit and model name lives here with its default. Values are parsed once per env
+ * object; any invalid value fails the whole configuration with a ConfigError listing every problem,
+ * so a bad deploy is rejected on its first request instead of misbehaving quietly later.
+ */
+
+import type { Env, RateLimitClass, RateLimitRule, ChunkStrategy } from './types';
+import { CHUNK_STRATEGIES, DEFAULT_CHUNKING, EMBED_MAX_TOKENS } from './chunking';
+import type { ChunkingDefaults } from './chunking';
+import type { RetentionPolicy } from './retention';
+
+// Vectorize rejects a larger topK when a query returns all metadata, as every query here does
+// (the chunk text and filter fields live in the metadata); 100 only applies without it
+export const VECTORIZE_MAX_TOP_K = 20;
+
+// Vectors one Vectorize index can hold
+export const VECTORIZE_MAX_INDEX_VECTORS = 5_000_000;
+
+export type ConfigVariable =
+  | 'MAX_VECTORS'
+  | 'INDEX_MAX_VECTORS'
+  | 'QUERY_MAX_TOP_K'
+  | 'EMBED_MODEL'
+  | 'CHAT_MODEL'
+  | 'RERANK_MODEL'
+  | 'CHAT_CONTEXT_TOKENS'
+  | 'CHAT_MAX_TOKENS'
+  | 'CHAT_TEMPERATURE'
+  | 'RAG_TOP_K'
+  | 'HISTORY_MAX_MESSAGES'
+  | 'SESSION_SUMMARY_TOKENS'
+  | 'SESSION_RECENT_MESSAGES'
+  | 'CHUNK_STRATEGY'
+  | 'CHUNK_MAX_TOKENS'
+  | 'CHUNK_MAX_CHARS'
+  | 'CHUNK_OVERLAP_TOKENS'
+  | 'CHUNK_OVERLAP_CHARS'
+  | 'MAX_UPLOAD_BYTES'
+  | 'MAX_REQUEST_BYTES'
+  | 'AI_MAX_CONCURRENT'
+  | 'RATE_LIMIT_EMBED'
+  | 'RATE_LIMIT_QUERY'
+  | 'RATE_LIMIT_CHAT'
+  | 'RETENTION_DAYS'
+  | 'RETENTION_DAYS_BY_TYPE'
+  | 'SESSION_RETENTION_DAYS';
+
+export type ConfigEnv = Partial<Pick<Env, ConfigVariable>>;
+
+export interface Config {
+  vectors: {
+    maxVectors: number; // Default per-workspace quota; Workspace.vectorLimit overrides it
+    indexMaxVectors: number; // Cap on the quotas of all workspaces together, as they share one index
+    maxTopK: number; // Upper bound on topK for any Vectorize query
+  };
+  models: {
+    embed: string;
+    chat: string; // Also used for query rewriting and summaries
+    rerank: string;
+  };
+  chat: {
+    contextTokens: number; // Context window of the chat model
+    maxTokens: number; // Default answer budget
+    temperature: number;
+    topK: number; // Chunks retrieved per question before context packing
+    historyMessages: number; // Most history messages considered for the prompt
+  };
+  sessions: {
+    summaryTokens: number; // Unsummarised session history that triggers compaction into the summary
+    recentMessages: number; // Messages kept verbatim when compacting
+  };
+  chunking: ChunkingDefaults;
+  maxUploadBytes: number;
+  maxRequestBytes: number; // Largest JSON request body
+  aiMaxConcurrent: number; // Concurrent Workers AI calls allowed by the AIGate
+  rateLimits: Record<RateLimitClass, RateLimitRule>;
+  retention: RetentionPolicy;
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration: ${problems.join('; ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const cache = new WeakMap<object, Config>();
+
+/**
+ * Effective configuration for an env, throwing ConfigError if any variable is invalid
+ */
+export function getConfig(env: ConfigEnv): Config {
+  const cached = cache.get(env);
+  if (cached) {
+    return cached;
+  }
+
+  const config = parseConfig(env);
+  cache.set(env, config);
+  return config;
+}
+
+function parseConfig(env: ConfigEnv): Config {
+  const problems: string[] = [];
+  const read = new ConfigReader(env, problems);
+
+  const maxVectors = read.integer('MAX_VECTORS', 100, 1);
+  const indexMaxVectors = read.integer('INDEX_MAX_VECTORS', VECTORIZE_MAX_INDEX_VECTORS, 1, VECTORIZE_MAX_INDEX_VECTORS);
+  const maxTopK = read.integer('QUERY_MAX_TOP_K', VECTORIZE_MAX_TOP_K, 1, VECTORIZE_MAX_TOP_K);
+  const contextTokens = read.integer('CHAT_CONTEXT_TOKENS', 7968, 512);
+  const maxTokens = read.integer('CHAT_MAX_TOKENS', 2048, 1);
+  const topK = read.integer('RAG_TOP_K', 8, 1);
+  const chunkMaxTokens = read.integer('CHUNK_MAX_TOKENS', DEFAULT_CHUNKING.maxTokens, 16, EMBED_MAX_TOKENS);
+  const chunkMaxChars = read.integer('CHUNK_MAX_CHARS', DEFAULT_CHUNKING.maxChunkSize, 100);
+  const tokenOverlap = read.integer('CHUNK_OVERLAP_TOKENS', DEFAULT_CHUNKING.tokenOverlap, 0);
+  const charOverlap = read.integer('CHUNK_OVERLAP_CHARS', DEFAULT_CHUNKING.charOverlap, 0);
+
+  if (maxVectors > indexMaxVectors) {
+    problems.push(`MAX_VECTORS (${maxVectors}) must not exceed INDEX_MAX_VECTORS (${indexMaxVectors})`);
+  }
+  if (topK > maxTopK) {
+    problems.push(`RAG_TOP_K (${topK}) must not exceed QUERY_MAX_TOP_K (${maxTopK})`);
+  }
+  if (maxTokens >= contextTokens) {
+    problems.push(`CHAT_MAX_TOKENS (${maxTokens}) must be less than CHAT_CONTEXT_TOKENS (${contextTokens})`);
+  }
+  if (tokenOverlap >= chunkMaxTokens) {
+    problems.push(`CHUNK_OVERLAP_TOKENS (${tokenOverlap}) must be less than CHUNK_MAX_TOKENS (${chunkMaxTokens})`);
+  }
+  if (charOverlap >= chunkMaxChars) {
+    problems.push(`CHUNK_OVERLAP_CHARS (${charOverlap}) must be less than CHUNK_MAX_CHARS (${chunkMaxChars})`);
+  }
+
+  const config: Config = {
+    vectors: {
+      maxVectors,
+      indexMaxVectors,
+      maxTopK,
+    },
+    models: {
+      embed: read.string('EMBED_MODEL', '@cf/baai/bge-small-en-v1.5'),
+      chat: read.string('CHAT_MODEL', '@cf/meta/llama-3.1-8b-instruct'),
+      rerank: read.string('RERANK_MODEL', '@cf/baai/bge-reranker-base'),
+    },
+    chat: {
+      contextTokens,
+      maxTokens,
+      temperature: read.number('CHAT_TEMPERATURE', 0.7, 0, 5),
+      topK,
+      historyMessages: read.integer('HISTORY_MAX_MESSAGES', 20, 0),
+    },
+    sessions: {
+      summaryTokens: read.integer('SESSION_SUMMARY_TOKENS', 1500, 100),
+      recentMessages: read.integer('SESSION_RECENT_MESSAGES', 6, 0),
+    },
+    chunking: {
+      strategy: read.oneOf<ChunkStrategy>('CHUNK_STRATEGY', DEFAULT_CHUNKING.strategy, CHUNK_STRATEGIES),
+      maxTokens: chunkMaxTokens,
+      maxChunkSize: chunkMaxChars,
+      tokenOverlap,
+      charOverlap,
+    },
+    maxUploadBytes: read.integer('MAX_UPLOAD_BYTES', 10 * 1024 * 1024, 1),
+    maxRequestBytes: read.integer('MAX_REQUEST_BYTES', 5 * 1024 * 1024, 1024),
+    aiMaxConcurrent: read.integer('AI_MAX_CONCURRENT', 2, 1),
+    rateLimits: {
+      embed: read.rateLimit('RATE_LIMIT_EMBED', { limit: 10, windowSeconds: 60 }),
+      query: read.rateLimit('RATE_LIMIT_QUERY', { limit: 60, windowSeconds: 60 }),
+      chat: read.rateLimit('RATE_LIMIT_CHAT', { limit: 20, windowSeconds: 60 }),
+    },
+    retention: {
+      // 0 keeps forever
+      defaultDays: read.integer('RETENTION_DAYS', 0, 0), // Opt-in: nothing expires unless configured
+      daysByType: read.daysByType('RETENTION_DAYS_BY_TYPE'),
+      sessionDays: read.integer('SESSION_RETENTION_DAYS', 30, 0),
+    },
+  };
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+/**
+ * Parses individual variables, recording problems instead of throwing so all are reported at once
+ * Unset and blank variables take the default.
+ */
+class ConfigReader {
+  constructor(private env: ConfigEnv, private problems: string[]) {}
+
+  string(name: ConfigVariable, fallback: string): string {
+    return this.raw(name) ?? fallback;
+  }
+
+  integer(name: ConfigVariable, fallback: number, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      return this.invalid(name, value, `an integer from ${min}${max < Number.MAX_SAFE_INTEGER ? ` to ${max}` : ' up'}`, fallback);
+    }
+    return parsed;
+  }
+
+  number(name: ConfigVariable, fallback: number, min: number, max: number): number {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+      return this.invalid(name, value, `a number from ${min} to ${max}`, fallback);
+    }
+    return parsed;
+  }
+
+  oneOf<T extends string>(name: ConfigVariable, fallback: T, allowed: readonly T[]): T {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    if (!allowed.includes(value as T)) {
+      return this.invalid(name, value, `one of ${allowed.join(', ')}`, fallback);
+    }
+    return value as T;
+  }
+
+  // "<requests>/<seconds>"
+  rateLimit(name: ConfigVariable, fallback: RateLimitRule): RateLimitRule {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    const match = value.match(/^(\d+)\s*\/\s*(\d+)$/);
+    if (!match || parseInt(match[2], 10) === 0) {
+      return this.invalid(name, value, '"<requests>/<seconds>" with a non-zero window', fallback);
+    }
+    return { limit: parseInt(match[1], 10), windowSeconds: parseInt(match[2], 10) };
+  }
+
+  // JSON object of document type to days, e.g. {"pdf": 90, "text": 7}
+  daysByType(name: ConfigVariable): Record<string, number> {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(value);
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) &&
+          Object.values(parsed).every(days => Number.isInteger(days) && (days as number) >= 0)) {
+        return parsed as Record<string, number>;
+      }
+    } catch (e) {
+      // Fall through to the problem report
+    }
+    return this.invalid(name, value, 'a JSON object of document type to whole days', {});
+  }
+
+  private raw(name: ConfigVariable): string | undefined {
+    const value = this.env[name];
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+  }
+
+  private invalid<T>(name: ConfigVariable, value: string, expected: string, fallback: T): T {
+    this.problems.push(`${name} must be ${expected}, got ${JSON.stringify(value)}`);
+    return fallback;
+  }
+}
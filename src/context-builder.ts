@@ -0,0 +1,269 @@
+/**
+ * Token-budgeted prompt assembly for RAG
+ *
+ * The chat model's context window is shared by the system prompt, the conversation history,
+ * the retrieved passages, the question and the tokens reserved for the answer. History gets at
+ * most a fixed share of what is left after the fixed parts, and whatever it does not use goes to
+ * the passages. Near-duplicate chunks are dropped before packing, and packed passages are widened
+ * with adjacent chunks from the chunk store while budget remains.
+ */
+
+import type { Env, ChatMessage, QueryResult, ContextOptions } from './types';
+import { estimateTokens, truncateToTokens } from './tokenizer';
+import { getDocumentChunks } from './chunk-store';
+import type { DocumentChunks } from './chunk-store';
+import { resultText } from './citations';
+import { getConfig } from './config';
+
+// Most of the window should go to document context; history only gets what it needs up to this share
+const HISTORY_SHARE = 0.3;
+
+// Chat template framing per message, and the "[n] (Document, page x)" label plus separator per passage
+const MESSAGE_OVERHEAD_TOKENS = 8;
+const PASSAGE_OVERHEAD_TOKENS = 16;
+
+// Jaccard similarity of word trigrams above which a chunk counts as a duplicate of a better one
+const DEFAULT_DEDUPE_THRESHOLD = 0.8;
+const SHINGLE_SIZE = 3;
+
+const DEFAULT_NEIGHBORS = 1;
+export const MAX_NEIGHBORS = 3;
+
+export interface ContextBudget {
+  total: number;
+  answer: number;
+  system: number;
+  question: number;
+  history: number;
+  context: number;
+}
+
+export interface AssembledContext {
+  history: ChatMessage[];
+  results: QueryResult[]; // Passages to number in the prompt, with contextText set when expanded
+  budget: ContextBudget; // Tokens actually used per part (total and answer are the limits)
+  dropped: {
+    duplicates: number;
+    overBudget: number;
+    historyMessages: number;
+  };
+}
+
+/**
+ * Fit history and retrieved passages into the model's context window
+ * `question` should be the full final user message without the passages.
+ */
+export async function assembleContext(
+  systemPrompt: string,
+  question: string,
+  history: ChatMessage[],
+  results: QueryResult[],
+  answerTokens: number,
+  env: Env,
+  options: ContextOptions = {}
+): Promise<AssembledContext> {
+  const config = getConfig(env);
+  const {
+    neighbors = DEFAULT_NEIGHBORS,
+    dedupeThreshold = DEFAULT_DEDUPE_THRESHOLD,
+  } = options;
+  // Requests can budget for a smaller window, never a larger one than the model has
+  const maxContextTokens = Math.min(options.maxContextTokens ?? config.chat.contextTokens, config.chat.contextTokens);
+
+  const systemTokens = estimateTokens(systemPrompt) + MESSAGE_OVERHEAD_TOKENS;
+  const questionTokens = estimateTokens(question) + MESSAGE_OVERHEAD_TOKENS;
+  const available = Math.max(0, maxContextTokens - answerTokens - systemTokens - questionTokens);
+
+  const selectedHistory = selectHistory(history, Math.floor(available * HISTORY_SHARE), config.chat.historyMessages);
+  const historyTokens = selectedHistory.reduce((sum, message) => sum + messageTokens(message), 0);
+
+  const unique = dedupeResults(results, dedupeThreshold);
+  const { packed, used, skipped } = packResults(unique, available - historyTokens);
+  const expanded = neighbors > 0
+    ? await expandWithNeighbors(packed, Math.min(neighbors, MAX_NEIGHBORS), available - historyTokens - used, env)
+    : { results: packed, used: 0 };
+
+  return {
+    history: selectedHistory,
+    results: expanded.results,
+    budget: {
+      total: maxContextTokens,
+      answer: answerTokens,
+      system: systemTokens,
+      question: questionTokens,
+      history: historyTokens,
+      context: used + expanded.used,
+    },
+    dropped: {
+      duplicates: results.length - unique.length,
+      overBudget: skipped,
+      historyMessages: history.length - selectedHistory.length,
+    },
+  };
+}
+
+/**
+ * Keep the most recent whole messages that fit in the budget
+ */
+function selectHistory(history: ChatMessage[], budget: number, maxMessages: number): ChatMessage[] {
+  const selected: ChatMessage[] = [];
+  let used = 0;
+
+  for (let i = history.length - 1; i >= 0 && selected.length < maxMessages; i--) {
+    const tokens = messageTokens(history[i]);
+    if (used + tokens > budget) {
+      break;
+    }
+    selected.unshift(history[i]);
+    used += tokens;
+  }
+
+  return selected;
+}
+
+function messageTokens(message: ChatMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Drop chunks whose text is nearly identical to a higher-ranked one
+ * Catches overlapping windows and the same text uploaded as several documents.
+ */
+export function dedupeResults(results: QueryResult[], threshold: number = DEFAULT_DEDUPE_THRESHOLD): QueryResult[] {
+  const kept: Array<{ result: QueryResult; shingles: Set<string> }> = [];
+
+  for (const result of results) {
+    const shingles = wordShingles(resultText(result));
+    const duplicate = kept.some(existing =>
+      existing.result.id === result.id || jaccard(existing.shingles, shingles) >= threshold
+    );
+    if (!duplicate) {
+      kept.push({ result, shingles });
+    }
+  }
+
+  return kept.map(({ result }) => result);
+}
+
+/**
+ * Take passages in rank order while they fit; the top passage is truncated rather than dropped
+ */
+export function packResults(results: QueryResult[], budget: number): { packed: QueryResult[]; used: number; skipped: number } {
+  const packed: QueryResult[] = [];
+  let used = 0;
+
+  for (const result of results) {
+    const tokens = estimateTokens(resultText(result)) + PASSAGE_OVERHEAD_TOKENS;
+
+    if (used + tokens <= budget) {
+      packed.push(result);
+      used += tokens;
+    } else if (packed.length === 0 && budget > PASSAGE_OVERHEAD_TOKENS) {
+      const contextText = truncateToTokens(resultText(result), budget - PASSAGE_OVERHEAD_TOKENS);
+      packed.push({ ...result, contextText });
+      used += estimateTokens(contextText) + PASSAGE_OVERHEAD_TOKENS;
+    }
+  }
+
+  return { packed, used, skipped: results.length - packed.length };
+}
+
+/**
+ * Widen each passage with the chunks before and after it on the same page, nearest first,
+ * best-ranked passages first, while the remaining budget allows
+ */
+async function expandWithNeighbors(
+  results: QueryResult[],
+  neighbors: number,
+  budget: number,
+  env: Env
+): Promise<{ results: QueryResult[]; used: number }> {
+  const documents = new Map<string, Promise<DocumentChunks | null>>();
+  const includedIds = new Set(results.map(result => result.id));
+  let used = 0;
+
+  const expanded: QueryResult[] = [];
+
+  for (const result of results) {
+    const documentId = result.metadata.documentId;
+    if (!documentId || result.contextText !== undefined || used >= budget) {
+      expanded.push(result);
+      continue;
+    }
+
+    if (!documents.has(documentId)) {
+      documents.set(documentId, getDocumentChunks(env, documentId).catch(() => null));
+    }
+    const document = await documents.get(documentId);
+    const position = document?.chunks.findIndex(chunk => chunk.id === result.id) ?? -1;
+    if (!document || position === -1) {
+      expanded.push(result);
+      continue;
+    }
+
+    const hit = document.chunks[position];
+    let text = resultText(result);
+    const neighborIds: string[] = [];
+
+    for (let distance = 1; distance <= neighbors; distance++) {
+      for (const index of [position - distance, position + distance]) {
+        const neighbor = document.chunks[index];
+        if (!neighbor || neighbor.textIndex !== hit.textIndex || includedIds.has(neighbor.id)) {
+          continue;
+        }
+
+        const candidate = index < position ? joinOverlapping(neighbor.text, text) : joinOverlapping(text, neighbor.text);
+        const extra = estimateTokens(candidate) - estimateTokens(text);
+        if (used + extra > budget) {
+          continue;
+        }
+
+        text = candidate;
+        used += extra;
+        includedIds.add(neighbor.id);
+        neighborIds.push(neighbor.id);
+      }
+    }
+
+    expanded.push(neighborIds.length > 0 ? { ...result, contextText: text, neighborIds } : result);
+  }
+
+  return { results: expanded, used };
+}
+
+// Join consecutive chunks, removing the overlap the chunker carried from one into the next
+export function joinOverlapping(first: string, second: string): string {
+  const maxOverlap = Math.min(first.length, second.length);
+  for (let length = maxOverlap; length >= 20; length--) {
+    if (first.endsWith(second.slice(0, length))) {
+      return first + second.slice(length);
+    }
+  }
+  return `${first}\n${second}`;
+}
+
+function wordShingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const shingles = new Set<string>();
+  if (words.length < SHINGLE_SIZE) {
+    shingles.add(words.join(' '));
+    return shingles;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let intersection = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) {
+      intersection++;
+    }
+  }
+  return intersection / (a.size + b.size - intersection);
+}
@@ -0,0 +1,48 @@
+/**
+ * KV cache for generated document summaries and outlines (scoped to the current workspace)
+ *
+ * Entries record the document version they were generated from and are ignored once the document
+ * changes; re-ingesting or deleting a document also removes them outright.
+ */
+
+import type { Env } from './types';
+import { workspaceKey } from './workspaces';
+
+export type DigestKind = 'summary' | 'outline';
+
+const DIGEST_KEY_PREFIXES: Record<DigestKind, string> = {
+  summary: '__summary__:',
+  outline: '__outline__:',
+};
+
+export interface CachedDigest {
+  version: string; // Document version, or the combined versions for a multi-document outline
+  text: string;
+  sections: number; // Map-step inputs the digest was reduced from
+  maxWords?: number;
+  generatedAt: string;
+}
+
+export async function getCachedDigest(env: Env, kind: DigestKind, key: string): Promise<CachedDigest | null> {
+  return await env.DOC_METADATA.get(workspaceKey(env, DIGEST_KEY_PREFIXES[kind] + key), 'json') as CachedDigest | null;
+}
+
+export async function putCachedDigest(
+  env: Env,
+  kind: DigestKind,
+  key: string,
+  digest: CachedDigest,
+  expirationTtl?: number
+): Promise<void> {
+  await env.DOC_METADATA.put(
+    workspaceKey(env, DIGEST_KEY_PREFIXES[kind] + key),
+    JSON.stringify(digest),
+    expirationTtl ? { expirationTtl } : undefined
+  );
+}
+
+export async function invalidateDocumentDigests(env: Env, documentId: string): Promise<void> {
+  await Promise.all(
+    Object.values(DIGEST_KEY_PREFIXES).map(prefix => env.DOC_METADATA.delete(workspaceKey(env, prefix + documentId)))
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Document catalogue (scoped to the current workspace)
+ *
+ * Document records are written with a DocumentSummary as their KV list metadata, so listing the
+ * catalogue takes one list call per 1000 keys instead of a read per document. Records written
+ * before that (or whose summary is too large for list metadata) are read individually.
+ */
+
+import type { Env, DocumentRecord, DocumentSummary, DocumentSortField } from './types';
+import { getDocumentChunks } from './chunk-store';
+import type { StoredChunk } from './chunk-store';
+import { workspaceKey, listWorkspaceEntries, isReservedDocumentId } from './workspaces';
+import { isInternalKey } from './kv';
+
+export const DOCUMENT_SORT_FIELDS: DocumentSortField[] = ['name', 'uploadedAt', 'chunksCount'];
+export const DEFAULT_DOCUMENT_PAGE_SIZE = 50;
+export const MAX_DOCUMENT_PAGE_SIZE = 200;
+
+// KV rejects list metadata over 1024 bytes once serialized
+const MAX_LIST_METADATA_BYTES = 1024;
+
+export interface DocumentListOptions {
+  sort?: DocumentSortField; // Default uploadedAt
+  order?: 'asc' | 'desc'; // Default desc for uploadedAt and chunksCount, asc for name
+  type?: string; // Exact document type, case-insensitive
+  name?: string; // Substring of the name, case-insensitive
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+export interface DocumentListEntry extends DocumentSummary {
+  id: string;
+}
+
+export interface DocumentPage {
+  documents: DocumentListEntry[];
+  total: number; // Documents matching the filters, across all pages
+  nextCursor: string | null;
+}
+
+export type DocumentListResult =
+  | { ok: true; page: DocumentPage }
+  | { ok: false; status: 400; error: string };
+
+export interface DocumentChunkView {
+  id: string;
+  textIndex: number; // Which of the ingested texts (pages, for uploads) the chunk came from
+  chunkIndex: number; // Position within that text
+  pageNumber?: number;
+  heading?: string;
+  text: string;
+}
+
+export type DocumentDetailResult =
+  | { ok: true; document: DocumentRecord & { id: string; chunks: DocumentChunkView[] } }
+  | { ok: false; status: 404; error: string };
+
+/**
+ * Store a document record along with its catalogue summary
+ */
+export async function putDocumentRecord(env: Env, documentId: string, record: DocumentRecord): Promise<void> {
+  const summary = documentSummary(record);
+  const fitsMetadata = new TextEncoder().encode(JSON.stringify(summary)).byteLength <= MAX_LIST_METADATA_BYTES;
+
+  await env.DOC_METADATA.put(workspaceKey(env, documentId), JSON.stringify(record), fitsMetadata ? { metadata: summary } : {});
+}
+
+function documentSummary(record: DocumentRecord): DocumentSummary {
+  const { vectorIds, ...summary } = record;
+  return summary;
+}
+
+/**
+ * One page of the catalogue, filtered and sorted
+ * The cursor names the last document of the previous page rather than an offset, so documents
+ * added or deleted between requests do not shift later pages.
+ */
+export async function listDocuments(env: Env, options: DocumentListOptions = {}): Promise<DocumentListResult> {
+  const sort = options.sort || 'uploadedAt';
+  const direction = (options.order || (sort === 'name' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+  const limit = options.limit ?? DEFAULT_DOCUMENT_PAGE_SIZE;
+
+  let after: DocumentListEntry | null = null;
+  if (options.cursor) {
+    after = decodeCursor(options.cursor, sort);
+    if (!after) {
+      return { ok: false, status: 400, error: 'Invalid cursor' };
+    }
+  }
+
+  const type = options.type?.toLowerCase();
+  const name = options.name?.toLowerCase();
+  const documents = (await listAllDocuments(env)).filter(document =>
+    (!type || String(document.type).toLowerCase() === type) &&
+    (!name || String(document.name).toLowerCase().includes(name))
+  );
+
+  const compare = (a: DocumentListEntry, b: DocumentListEntry): number =>
+    direction * compareField(sort, a, b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  documents.sort(compare);
+
+  const start = after ? documents.findIndex(document => compare(document, after!) > 0) : 0;
+  const page = start === -1 ? [] : documents.slice(start, start + limit);
+  const hasMore = start !== -1 && start + limit < documents.length;
+
+  return {
+    ok: true,
+    page: {
+      documents: page,
+      total: documents.length,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1], sort) : null,
+    },
+  };
+}
+
+async function listAllDocuments(env: Env): Promise<DocumentListEntry[]> {
+  const entries = (await listWorkspaceEntries<DocumentSummary>(env)).filter(entry => !isInternalKey(entry.name));
+
+  const documents = await Promise.all(entries.map(async ({ name: id, metadata }) => {
+    if (metadata) {
+      return { id, ...metadata };
+    }
+    const record = await env.DOC_METADATA.get(workspaceKey(env, id), 'json') as DocumentRecord | null;
+    return record ? { id, ...documentSummary(record) } : null;
+  }));
+  return documents.filter((document): document is DocumentListEntry => document !== null);
+}
+
+function compareField(sort: DocumentSortField, a: DocumentListEntry, b: DocumentListEntry): number {
+  switch (sort) {
+    case 'name':
+      return String(a.name).localeCompare(String(b.name));
+    case 'chunksCount':
+      return (a.chunksCount || 0) - (b.chunksCount || 0);
+    case 'uploadedAt':
+      return String(a.uploadedAt).localeCompare(String(b.uploadedAt));
+  }
+}
+
+// Cursors carry the sort field's value and the ID of the last document, as base64url JSON
+function encodeCursor(document: DocumentListEntry, sort: DocumentSortField): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([sort, document[sort], document.id]));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string, sort: DocumentSortField): DocumentListEntry | null {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const json = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    const [cursorSort, value, id] = JSON.parse(json);
+    // A cursor from a listing with another sort order would skip or repeat documents
+    if (cursorSort !== sort || typeof id !== 'string') {
+      return null;
+    }
+    return { id, [sort]: value } as unknown as DocumentListEntry;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * A document record with the text of every chunk, as stored for retrieval
+ */
+export async function getDocument(env: Env, documentId: string): Promise<DocumentDetailResult> {
+  const record = isReservedDocumentId(documentId)
+    ? null
+    : await env.DOC_METADATA.get(workspaceKey(env, documentId), 'json') as DocumentRecord | null;
+  if (!record) {
+    return { ok: false, status: 404, error: `Document ${documentId} not found` };
+  }
+
+  const stored = await getDocumentChunks(env, documentId);
+  const chunks = (stored?.chunks || [])
+    .map(chunkView)
+    .sort((a, b) => a.textIndex - b.textIndex || a.chunkIndex - b.chunkIndex);
+
+  return { ok: true, document: { id: documentId, ...record, chunks } };
+}
+
+function chunkView(chunk: StoredChunk): DocumentChunkView {
+  return {
+    id: chunk.id,
+    textIndex: chunk.textIndex,
+    chunkIndex: chunk.chunkIndex,
+    ...(chunk.pageNumber !== undefined ? { pageNumber: chunk.pageNumber } : {}),
+    ...(chunk.heading ? { heading: chunk.heading } : {}),
+    text: chunk.text,
+  };
+}
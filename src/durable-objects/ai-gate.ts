@@ -1,31 +1,70 @@
+import type { AIPriority } from '../types';
+import { getConfig } from '../config';
+import type { ConfigEnv } from '../config';
+
 /**
  * AIGate Durable Object
- * 
- * Enforces concurrency limits for AI requests on free tier (2 concurrent GPU jobs).
- * Uses Cloudflare's blockConcurrencyWhile to serialize requests.
+ *
+ * Enforces concurrency limits for AI requests (AI_MAX_CONCURRENT, 2 concurrent GPU jobs on free tier).
+ * Requests beyond the limit wait in a FIFO queue per priority; interactive requests (chat,
+ * query embeddings) are always dequeued before bulk ones (document embedding, summaries).
+ * Every request has a deadline covering both the wait and the AI call. A call that misses its
+ * deadline keeps its slot until it actually finishes, since it is still using the GPU; only the
+ * caller stops waiting for it.
  */
+
+interface QueuedRequest {
+  priority: AIPriority;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface AIGateEnv extends ConfigEnv {
+  AI: any;
+}
+
+class GateError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const PRIORITY_ORDER: AIPriority[] = ['interactive', 'bulk'];
+
 export class AIGate {
   private state: DurableObjectState;
+  private env: AIGateEnv;
   private activeRequests: number = 0;
-  private readonly MAX_CONCURRENT = 2; // Free tier limit
+  private readonly MAX_CONCURRENT: number;
+  private readonly MAX_QUEUE_DEPTH = 100;
+  private readonly DEFAULT_TIMEOUT_MS = 60_000;
+  private queues: Record<AIPriority, QueuedRequest[]> = { interactive: [], bulk: [] };
 
-  constructor(state: DurableObjectState) {
+  constructor(state: DurableObjectState, env: AIGateEnv) {
     this.state = state;
+    this.env = env;
+    this.MAX_CONCURRENT = getConfig(env).aiMaxConcurrent;
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
-    
+
     if (url.pathname === '/queue') {
       // Queue and execute the AI request
       return this.handleQueueRequest(request);
     }
-    
+
     if (url.pathname === '/status') {
       // Return current queue status
       return new Response(JSON.stringify({
         activeRequests: this.activeRequests,
         maxConcurrent: this.MAX_CONCURRENT,
+        queueDepth: this.queueDepth(),
+        queued: {
+          interactive: this.queues.interactive.length,
+          bulk: this.queues.bulk.length,
+        },
         available: this.activeRequests < this.MAX_CONCURRENT
       }), {
         headers: { 'Content-Type': 'application/json' }
@@ -39,8 +78,8 @@ export class AIGate {
     try {
       // Parse the AI request details from the body
       const data = await request.json() as any;
-      
-      if (!data || typeof data !== 'object') {
+
+      if (!data || typeof data !== 'object' || typeof data.model !== 'string') {
         return new Response(JSON.stringify({
           error: 'Invalid request body'
         }), {
@@ -48,37 +87,42 @@ export class AIGate {
           headers: { 'Content-Type': 'application/json' }
         });
       }
-      
-      const { model, params, env } = data;
-      
-      // Use blockConcurrencyWhile to enforce concurrency limit
-      const result = await this.state.blockConcurrencyWhile(async () => {
-        // Check if we're at capacity
-        if (this.activeRequests >= this.MAX_CONCURRENT) {
-          // Wait for a slot to become available
-          await new Promise<void>((resolve) => {
-            const checkInterval = setInterval(() => {
-              if (this.activeRequests < this.MAX_CONCURRENT) {
-                clearInterval(checkInterval);
-                resolve();
-              }
-            }, 100); // Check every 100ms
-          });
-        }
-
-        // Increment active requests
-        this.activeRequests++;
-        
-        try {
-          // Execute the AI request
-          // Note: We need to reconstruct the env object with the AI binding
-          const aiResponse = await this.executeAIRequest(model, params, env);
-          return aiResponse;
-        } finally {
-          // Always decrement active requests
-          this.activeRequests--;
-        }
-      });
+
+      const { model, params = {} } = data;
+      const priority: AIPriority = PRIORITY_ORDER.includes(data.priority) ? data.priority : 'interactive';
+      const timeoutMs = typeof data.timeoutMs === 'number' && data.timeoutMs > 0 ? data.timeoutMs : this.DEFAULT_TIMEOUT_MS;
+      const deadline = Date.now() + timeoutMs;
+
+      await this.acquire(priority, timeoutMs);
+
+      // The slot is released when the call settles, not when this request ends
+      const run: Promise<any> = Promise.resolve().then(() => this.env.AI.run(model, params));
+      let abandoned = false;
+      run.then(
+        result => {
+          if (!(result instanceof ReadableStream)) {
+            this.release();
+          } else if (abandoned) {
+            // Nobody will read the stream, so stop generating
+            result.cancel().catch(() => {}).finally(() => this.release());
+          }
+        },
+        () => this.release()
+      );
+
+      const result = await this.withDeadline(run, deadline, () => { abandoned = true; });
+
+      if (result instanceof ReadableStream) {
+        // Hold the slot until the stream has been fully consumed (or cancelled)
+        const { readable, writable } = new TransformStream();
+        result.pipeTo(writable)
+          .catch(error => console.error('AIGate stream error:', error))
+          .finally(() => this.release());
+
+        return new Response(readable, {
+          headers: { 'Content-Type': 'text/event-stream' }
+        });
+      }
 
       return new Response(JSON.stringify(result), {
         headers: { 'Content-Type': 'application/json' }
@@ -89,20 +133,84 @@ export class AIGate {
       return new Response(JSON.stringify({
         error: errorMessage
       }), {
-        status: 500,
+        status: error instanceof GateError ? error.status : 500,
         headers: { 'Content-Type': 'application/json' }
       });
     }
   }
 
-  private async executeAIRequest(model: string, params: any, envData: any): Promise<any> {
-    // This would need to be implemented to actually call the AI service
-    // For now, we'll throw an error indicating it needs implementation
-    throw new Error('AI execution needs to be implemented with proper env.AI binding');
+  private queueDepth(): number {
+    return this.queues.interactive.length + this.queues.bulk.length;
   }
-}
 
-// Export namespace for wrangler.toml
-export interface Env {
-  AI_GATE: DurableObjectNamespace;
-}
\ No newline at end of file
+  /**
+   * Wait for a free slot, or fail once the timeout expires while still queued
+   */
+  private acquire(priority: AIPriority, timeoutMs: number): Promise<void> {
+    if (this.activeRequests < this.MAX_CONCURRENT && this.queueDepth() === 0) {
+      this.activeRequests++;
+      return Promise.resolve();
+    }
+
+    if (this.queueDepth() >= this.MAX_QUEUE_DEPTH) {
+      return Promise.reject(new GateError('AI queue is full, try again later', 503));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueuedRequest = {
+        priority,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const queue = this.queues[priority];
+          const index = queue.indexOf(entry);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            reject(new GateError(`Timed out after ${timeoutMs}ms waiting for an AI slot`, 504));
+          }
+        }, timeoutMs),
+      };
+      this.queues[priority].push(entry);
+    });
+  }
+
+  // Free a slot and hand it straight to the next queued request, highest priority first
+  private release(): void {
+    this.activeRequests--;
+
+    for (const priority of PRIORITY_ORDER) {
+      const next = this.queues[priority].shift();
+      if (next) {
+        clearTimeout(next.timer);
+        this.activeRequests++;
+        next.resolve();
+        return;
+      }
+    }
+  }
+
+  /**
+   * Wait for the promise until the deadline, calling onTimeout if it passes first
+   * The underlying work is not cancelled.
+   */
+  private async withDeadline<T>(promise: Promise<T>, deadline: number, onTimeout: () => void): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => {
+          onTimeout();
+          reject(new GateError('AI request timed out', 504));
+        },
+        Math.max(0, deadline - Date.now())
+      );
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
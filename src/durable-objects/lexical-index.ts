@@ -0,0 +1,304 @@
+import type { QueryFilter } from '../types';
+import type { IndexedDocument, IndexedChunk, KeywordMatch } from '../lexical-index';
+import { matchesFilter, hasFilter } from '../filters';
+import { bm25Score } from '../lexical';
+
+/**
+ * LexicalIndex Durable Object
+ *
+ * Holds the inverted index for keyword search over one workspace (one instance per workspace ID),
+ * so a query reads the postings of its terms instead of every chunk record in KV. Documents are
+ * stored one per key with their chunks' term frequencies, and the in-memory postings are built
+ * from them once per instance.
+ *
+ * A new instance knows nothing about the documents already ingested, so until it is seeded every
+ * other request fails with 409 and the client seeds it from the chunk store.
+ */
+
+const DOCUMENT_PREFIX = 'doc:';
+const CHUNK_PREFIX = 'chunk:';
+const SEEDED_KEY = 'seeded';
+
+// Durable Object storage takes at most 128 keys per put or delete
+const STORAGE_BATCH_SIZE = 128;
+
+// Stored under doc:<documentId>; each chunk is stored under chunk:<documentId>:<chunkId>
+type StoredDocument = Omit<IndexedDocument, 'chunks'> & { chunkIds: string[] };
+
+interface ChunkEntry {
+  documentId: string;
+  length: number;
+  terms: string[];
+}
+
+class LexicalIndexError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export class LexicalIndex {
+  private state: DurableObjectState;
+  private loaded = false;
+  private seeded = false;
+  private documents = new Map<string, StoredDocument>();
+  private chunks = new Map<string, ChunkEntry>();
+  private postings = new Map<string, Map<string, number>>(); // term -> chunk ID -> frequency
+  private totalLength = 0;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    try {
+      if (request.method !== 'POST') {
+        return new Response('Not found', { status: 404 });
+      }
+
+      await this.load();
+      const data = await request.json() as any;
+
+      if (url.pathname === '/clear') {
+        await this.clear();
+        return this.json({ success: true });
+      }
+      if (url.pathname === '/seed') {
+        return this.json(await this.seed(requireDocuments(data?.documents)));
+      }
+      if (!this.seeded) {
+        throw new LexicalIndexError('Index not seeded', 409);
+      }
+
+      switch (url.pathname) {
+        case '/documents':
+          return this.json(await this.putDocument(requireDocuments([data?.document])[0]));
+        case '/remove':
+          return this.json(await this.removeDocument(requireDocumentId(data?.documentId)));
+        case '/search':
+          return this.json({ matches: this.search(requireTerms(data?.terms), requireLimit(data?.limit), data?.filter) });
+        default:
+          return new Response('Not found', { status: 404 });
+      }
+    } catch (error) {
+      console.error('LexicalIndex error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Lexical index request failed';
+      return new Response(JSON.stringify({
+        error: errorMessage
+      }), {
+        status: error instanceof LexicalIndexError ? error.status : 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    this.seeded = (await this.state.storage.get<boolean>(SEEDED_KEY)) ?? false;
+    const documents = await this.state.storage.list<StoredDocument>({ prefix: DOCUMENT_PREFIX });
+    const chunks = await this.state.storage.list<IndexedChunk>({ prefix: CHUNK_PREFIX });
+
+    for (const document of documents.values()) {
+      this.documents.set(document.documentId, document);
+      for (const chunkId of document.chunkIds) {
+        const chunk = chunks.get(chunkKey(document.documentId, chunkId));
+        if (chunk) {
+          this.addChunk(document.documentId, chunk);
+        }
+      }
+    }
+    this.loaded = true;
+  }
+
+  // Initial documents; ignored once seeded, as concurrent first requests may all try to seed
+  private async seed(documents: IndexedDocument[]): Promise<{ documents: number }> {
+    if (!this.seeded) {
+      for (const document of documents) {
+        await this.putDocument(document);
+      }
+      this.seeded = true;
+      await this.state.storage.put(SEEDED_KEY, true);
+    }
+    return { documents: this.documents.size };
+  }
+
+  /**
+   * Index a document, replacing the chunks of its previous version
+   */
+  private async putDocument(document: IndexedDocument): Promise<{ documents: number }> {
+    await this.removeDocument(document.documentId);
+
+    const { chunks, ...fields } = document;
+    const stored: StoredDocument = { ...fields, chunkIds: chunks.map(chunk => chunk.id) };
+    const entries = chunks.map(chunk => [chunkKey(document.documentId, chunk.id), chunk] as const);
+
+    for (let i = 0; i < entries.length; i += STORAGE_BATCH_SIZE) {
+      await this.state.storage.put(Object.fromEntries(entries.slice(i, i + STORAGE_BATCH_SIZE)));
+    }
+    await this.state.storage.put(DOCUMENT_PREFIX + document.documentId, stored);
+
+    this.documents.set(document.documentId, stored);
+    for (const chunk of chunks) {
+      this.addChunk(document.documentId, chunk);
+    }
+    return { documents: this.documents.size };
+  }
+
+  private async removeDocument(documentId: string): Promise<{ documents: number }> {
+    const document = this.documents.get(documentId);
+    if (!document) {
+      return { documents: this.documents.size };
+    }
+
+    const keys = document.chunkIds.map(chunkId => chunkKey(documentId, chunkId));
+    for (let i = 0; i < keys.length; i += STORAGE_BATCH_SIZE) {
+      await this.state.storage.delete(keys.slice(i, i + STORAGE_BATCH_SIZE));
+    }
+    await this.state.storage.delete(DOCUMENT_PREFIX + documentId);
+
+    for (const chunkId of document.chunkIds) {
+      this.removeChunk(chunkId);
+    }
+    this.documents.delete(documentId);
+    return { documents: this.documents.size };
+  }
+
+  private async clear(): Promise<void> {
+    await this.state.storage.deleteAll();
+    this.documents.clear();
+    this.chunks.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+    this.seeded = false;
+  }
+
+  private addChunk(documentId: string, chunk: IndexedChunk): void {
+    const terms = Object.entries(chunk.terms);
+    this.chunks.set(chunk.id, { documentId, length: chunk.length, terms: terms.map(([term]) => term) });
+    this.totalLength += chunk.length;
+
+    for (const [term, frequency] of terms) {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+      }
+      postings.set(chunk.id, frequency);
+    }
+  }
+
+  private removeChunk(chunkId: string): void {
+    const entry = this.chunks.get(chunkId);
+    if (!entry) {
+      return;
+    }
+    this.chunks.delete(chunkId);
+    this.totalLength -= entry.length;
+
+    for (const term of entry.terms) {
+      const postings = this.postings.get(term);
+      if (postings?.delete(chunkId) && postings.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+
+  /**
+   * Best chunks for the query terms by BM25
+   * Corpus statistics cover every chunk; the filter only restricts which chunks are returned.
+   */
+  private search(terms: string[], limit: number, filter?: QueryFilter): KeywordMatch[] {
+    const chunkCount = this.chunks.size;
+    if (chunkCount === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / chunkCount;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(terms)) {
+      const postings = this.postings.get(term);
+      if (!postings) {
+        continue;
+      }
+      for (const [chunkId, frequency] of postings) {
+        const score = bm25Score(frequency, postings.size, chunkCount, this.chunks.get(chunkId)!.length, averageLength);
+        scores.set(chunkId, (scores.get(chunkId) || 0) + score);
+      }
+    }
+
+    const matchesByDocument = new Map<string, boolean>();
+    const matches = (documentId: string): boolean => {
+      if (!hasFilter(filter)) {
+        return true;
+      }
+      if (!matchesByDocument.has(documentId)) {
+        const document = this.documents.get(documentId);
+        matchesByDocument.set(documentId, !!document && matchesFilter(documentFilterFields(document), filter));
+      }
+      return matchesByDocument.get(documentId)!;
+    };
+
+    return [...scores]
+      .map(([id, score]) => ({ id, documentId: this.chunks.get(id)!.documentId, score }))
+      .filter(match => match.score > 0 && matches(match.documentId))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private json(body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+function chunkKey(documentId: string, chunkId: string): string {
+  return `${CHUNK_PREFIX}${documentId}:${chunkId}`;
+}
+
+// The fields filters can test, as in the metadata stored with each vector
+function documentFilterFields(document: StoredDocument): Record<string, any> {
+  return {
+    ...document.metadata,
+    documentId: document.documentId,
+    documentName: document.documentName,
+    documentType: document.documentType,
+    timestamp: document.timestamp,
+  };
+}
+
+function requireDocuments(value: unknown): IndexedDocument[] {
+  if (!Array.isArray(value) || !value.every(document =>
+    typeof document?.documentId === 'string' && Array.isArray(document.chunks)
+  )) {
+    throw new LexicalIndexError('Invalid documents', 400);
+  }
+  return value as IndexedDocument[];
+}
+
+function requireDocumentId(value: unknown): string {
+  if (typeof value !== 'string' || value === '') {
+    throw new LexicalIndexError('Invalid documentId', 400);
+  }
+  return value;
+}
+
+function requireTerms(value: unknown): string[] {
+  if (!Array.isArray(value) || !value.every(term => typeof term === 'string')) {
+    throw new LexicalIndexError('Invalid terms', 400);
+  }
+  return value;
+}
+
+function requireLimit(value: unknown): number {
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new LexicalIndexError('Invalid limit', 400);
+  }
+  return value as number;
+}
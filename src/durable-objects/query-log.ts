@@ -0,0 +1,123 @@
+import type { QueryLogEntry, DocumentCitationStats } from '../types';
+
+/**
+ * QueryLog Durable Object
+ *
+ * Keeps the recent /rag retrievals and per-document citation counts of one workspace (one
+ * instance per workspace ID) for the retrieval-quality analytics. Entries are stored one per key
+ * and only the most recent MAX_ENTRIES are kept; citation counts are kept per document.
+ */
+
+const ENTRY_PREFIX = 'q:';
+const DOCUMENT_PREFIX = 'doc:';
+
+class QueryLogError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Zero-padded so storage lists entries oldest first
+function entryKey(seq: number): string {
+  return ENTRY_PREFIX + String(seq).padStart(12, '0');
+}
+
+export class QueryLog {
+  private state: DurableObjectState;
+  private readonly MAX_ENTRIES = 1000;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    try {
+      if (request.method === 'GET') {
+        switch (url.pathname) {
+          case '/entries':
+            return this.json({ entries: [...(await this.state.storage.list<QueryLogEntry>({ prefix: ENTRY_PREFIX })).values()] });
+          case '/documents':
+            return this.json({ documents: [...(await this.state.storage.list<DocumentCitationStats>({ prefix: DOCUMENT_PREFIX })).values()] });
+          default:
+            return new Response('Not found', { status: 404 });
+        }
+      }
+
+      if (request.method !== 'POST') {
+        return new Response('Not found', { status: 404 });
+      }
+
+      const data = await request.json() as any;
+
+      switch (url.pathname) {
+        case '/query':
+          return this.json(await this.addEntry(data?.entry));
+        case '/citations':
+          return this.json(await this.addCitations(data?.documents));
+        case '/clear':
+          await this.state.storage.deleteAll();
+          return this.json({ success: true });
+        default:
+          return new Response('Not found', { status: 404 });
+      }
+    } catch (error) {
+      console.error('QueryLog error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Query log request failed';
+      return new Response(JSON.stringify({
+        error: errorMessage
+      }), {
+        status: error instanceof QueryLogError ? error.status : 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  private async addEntry(entry: QueryLogEntry | undefined): Promise<{ seq: number }> {
+    if (!entry || typeof entry.query !== 'string' || typeof entry.at !== 'string') {
+      throw new QueryLogError('entry with query and at is required', 400);
+    }
+
+    const seq = ((await this.state.storage.get<number>('seq')) ?? 0) + 1;
+    await this.state.storage.put<unknown>({ seq, [entryKey(seq)]: entry });
+
+    // Drop the entry that just fell out of the window
+    if (seq > this.MAX_ENTRIES) {
+      await this.state.storage.delete(entryKey(seq - this.MAX_ENTRIES));
+    }
+    return { seq };
+  }
+
+  // One answer's cited documents, each counted once however often the answer cites it
+  private async addCitations(documents: Array<{ documentId: string; documentName?: string }> | undefined): Promise<{ updated: number }> {
+    if (!Array.isArray(documents) || documents.some(document => typeof document?.documentId !== 'string')) {
+      throw new QueryLogError('documents array with documentId is required', 400);
+    }
+
+    const now = new Date().toISOString();
+    const unique = [...new Map(documents.map(document => [document.documentId, document])).values()];
+    const existing = await this.state.storage.get<DocumentCitationStats>(unique.map(document => DOCUMENT_PREFIX + document.documentId));
+
+    const updates: Record<string, DocumentCitationStats> = {};
+    for (const { documentId, documentName } of unique) {
+      const previous = existing.get(DOCUMENT_PREFIX + documentId);
+      updates[DOCUMENT_PREFIX + documentId] = {
+        documentId,
+        documentName: documentName ?? previous?.documentName,
+        answers: (previous?.answers ?? 0) + 1,
+        lastCitedAt: now,
+      };
+    }
+    if (unique.length > 0) {
+      await this.state.storage.put(updates);
+    }
+    return { updated: unique.length };
+  }
+
+  private json(data: unknown): Response {
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
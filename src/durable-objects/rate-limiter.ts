@@ -0,0 +1,140 @@
+import type { RateLimitRule } from '../types';
+import type { RateLimitResult } from '../rate-limit';
+
+/**
+ * RateLimiter Durable Object
+ *
+ * Holds the request counts of one client for one rate limit class (one instance per
+ * "<class>:<client>"). Every request is counted by this single object, so concurrent requests
+ * cannot read the same count and all be let through, as they could with a counter in KV.
+ *
+ * Uses a sliding window counter: the previous fixed window's count is weighted by how much of it
+ * still overlaps the sliding window.
+ */
+
+interface WindowCounts {
+  windowStart: number;
+  windowMs: number;
+  current: number;
+  previous: number;
+}
+
+class RateLimiterError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export class RateLimiter {
+  private state: DurableObjectState;
+  private counts: WindowCounts | null = null;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    try {
+      if (request.method !== 'POST' || url.pathname !== '/check') {
+        return new Response('Not found', { status: 404 });
+      }
+
+      const data = await request.json() as any;
+      return this.json(await this.check(requireRule(data?.rule)));
+    } catch (error) {
+      console.error('RateLimiter error:', error);
+      return new Response(JSON.stringify({
+        error: error instanceof Error ? error.message : 'Rate limiter request failed'
+      }), {
+        status: error instanceof RateLimiterError ? error.status : 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * Count one request if it fits the rule's budget
+   */
+  private async check(rule: RateLimitRule): Promise<RateLimitResult> {
+    const windowMs = rule.windowSeconds * 1000;
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const resetSeconds = Math.ceil((windowStart + windowMs - now) / 1000);
+    const counts = await this.windowCounts(windowStart, windowMs);
+
+    const previousWeight = 1 - (now - windowStart) / windowMs;
+    const estimated = counts.previous * previousWeight + counts.current;
+
+    if (estimated + 1 > rule.limit) {
+      return {
+        allowed: false,
+        limit: rule.limit,
+        remaining: 0,
+        resetSeconds,
+        retryAfterSeconds: retryAfter(rule, counts.previous, counts.current, now - windowStart),
+      };
+    }
+
+    counts.current++;
+    await this.state.storage.put('counts', counts);
+
+    return {
+      allowed: true,
+      limit: rule.limit,
+      remaining: Math.max(0, Math.floor(rule.limit - estimated - 1)),
+      resetSeconds,
+    };
+  }
+
+  // Counts for the window starting at windowStart, rolling the stored ones forward as needed
+  private async windowCounts(windowStart: number, windowMs: number): Promise<WindowCounts> {
+    if (this.counts === null) {
+      this.counts = (await this.state.storage.get<WindowCounts>('counts')) ?? null;
+    }
+
+    const stored = this.counts;
+    let counts: WindowCounts;
+    if (!stored || stored.windowMs !== windowMs || stored.windowStart < windowStart - windowMs) {
+      // First request, a changed rule, or nothing in the previous window
+      counts = { windowStart, windowMs, current: 0, previous: 0 };
+    } else if (stored.windowStart < windowStart) {
+      counts = { windowStart, windowMs, current: 0, previous: stored.current };
+    } else {
+      counts = stored;
+    }
+    this.counts = counts;
+    return counts;
+  }
+
+  private json(body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Seconds until the sliding estimate drops enough to admit one more request
+ * If the current window alone is full, that is the end of the window.
+ */
+function retryAfter(rule: RateLimitRule, previous: number, current: number, elapsedMs: number): number {
+  const windowMs = rule.windowSeconds * 1000;
+
+  if (current + 1 > rule.limit || previous === 0) {
+    return Math.ceil((windowMs - elapsedMs) / 1000);
+  }
+
+  // previous * (1 - t / windowMs) + current + 1 <= limit  =>  t >= windowMs * (1 - (limit - current - 1) / previous)
+  const targetElapsedMs = windowMs * (1 - (rule.limit - current - 1) / previous);
+  return Math.max(1, Math.ceil((targetElapsedMs - elapsedMs) / 1000));
+}
+
+// A limit of 0 is valid and blocks every request
+function requireRule(value: any): RateLimitRule {
+  if (!Number.isInteger(value?.limit) || value.limit < 0 || !Number.isInteger(value?.windowSeconds) || value.windowSeconds < 1) {
+    throw new RateLimiterError('Invalid rule', 400);
+  }
+  return { limit: value.limit, windowSeconds: value.windowSeconds };
+}
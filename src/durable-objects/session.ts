@@ -1,22 +1,66 @@
-import type { ChatMessage } from '../types';
+import type { Env, ChatMessage, SessionInfo, SessionMessage, AnswerFeedback, Workspace } from '../types';
 import type { RAGRequest } from '../types/requests';
+import { generateRAGResponse, collectRAGStream } from '../rag';
+import { withWorkspace } from '../workspaces';
+import { generateSessionTitle, setSessionTitle, summarizeConversation } from '../sessions';
+import { getConfig } from '../config';
+import { estimateTokens } from '../tokenizer';
+
+/**
+ * SessionDO Durable Object
+ *
+ * One instance per session (named by its workspace-scoped session key). Answers /rag questions
+ * itself so each turn can be recorded once the answer has streamed, together with the sources
+ * the answer was given and cited. Messages are stored one per key ("msg:<seq>") so they can be
+ * paged without loading the whole conversation.
+ *
+ * Once the turns not yet summarised exceed SESSION_SUMMARY_TOKENS, all but the most recent
+ * SESSION_RECENT_MESSAGES are folded into a running summary kept in the session metadata. Prompts
+ * get the summary plus the turns after it, so long sessions keep their earlier context.
+ */
+
+// Body of /rag as sent by the Worker
+export interface SessionRAGRequest {
+  sessionId: string;
+  key: string; // Registry key and Durable Object name
+  workspace: Workspace;
+  rag: RAGRequest;
+}
+
+const META_KEY = 'meta';
+const MESSAGE_PREFIX = 'msg:';
+const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Zero-padded so storage lists messages in order
+function messageKey(seq: number): string {
+  return MESSAGE_PREFIX + String(seq).padStart(10, '0');
+}
 
 export class SessionDO {
   state: DurableObjectState;
-  env: any;
-  
-  constructor(state: DurableObjectState, env: any) {
+  env: Env;
+
+  constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
   }
-  
+
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
-    
+
     // Handle different session operations
     switch (url.pathname) {
       case '/rag':
         return this.handleRAGRequest(request);
+      case '/session':
+        return this.getSession();
+      case '/messages':
+        return this.getMessages(url);
+      case '/transcript':
+        return this.getTranscript();
+      case '/feedback':
+        return this.handleFeedback(request);
       case '/history':
         return this.getHistory();
       case '/clear':
@@ -25,102 +69,223 @@ export class SessionDO {
         return new Response('Not found', { status: 404 });
     }
   }
-  
+
   private async handleRAGRequest(request: Request): Promise<Response> {
-    const data = await request.json();
-    
+    const data = await request.json() as SessionRAGRequest;
+
     // Validate request data
-    if (!data || typeof data !== 'object' || !('question' in data) || typeof data.question !== 'string') {
+    if (!data?.rag || typeof data.rag.question !== 'string' || !data.workspace || typeof data.sessionId !== 'string') {
       return new Response(JSON.stringify({ error: 'Invalid request: question is required' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
-    
-    const requestData = data as RAGRequest;
-    const { question, history = [] } = requestData;
-    
-    // Get session history
-    const sessionHistory = (await this.state.storage.get<ChatMessage[]>('history')) || [];
-    
-    // Merge provided history with session history
-    const fullHistory = [...sessionHistory, ...history];
-    
-    // Update session history with new question
-    await this.state.storage.put('history', [
-      ...fullHistory,
-      { role: 'user', content: question },
-    ]);
-    
-    // Forward to the main RAG handler
-    const ragResponse = await fetch(new URL('/rag', request.url).toString(), {
-      method: 'POST',
-      headers: request.headers,
-      body: JSON.stringify({
-        question,
-        history: fullHistory,
-      }),
+
+    const env = withWorkspace({ ...this.env, WAIT_UNTIL: promise => this.state.waitUntil(promise) }, data.workspace);
+    const { question, history = [], retrieval, rewrite, context } = data.rag;
+
+    // Stored turns are authoritative; history sent by the client only seeds a new session
+    const meta = await this.state.storage.get<SessionInfo>(META_KEY);
+    if (!meta) {
+      for (const { role, content } of history) {
+        await this.appendMessage(data.sessionId, data.workspace.id, { role, content });
+      }
+    }
+
+    // Turns already folded into the summary reach the model through the summary only
+    const summarizedThrough = meta?.summarizedThrough ?? 0;
+    const recentHistory: ChatMessage[] = meta
+      ? (await this.listMessages({ startAfter: messageKey(summarizedThrough) })).map(({ role, content }) => ({ role, content }))
+      : history;
+
+    await this.appendMessage(data.sessionId, data.workspace.id, { role: 'user', content: question });
+
+    // Answer here rather than in the Worker so the turn is recorded even if the client disconnects
+    const stream = await generateRAGResponse(question, recentHistory, env, {
+      retrieval,
+      rewrite,
+      context,
+      conversationSummary: meta?.summary,
     });
-    
-    // If successful, add assistant response to history
-    if (ragResponse.ok) {
-      const clonedResponse = ragResponse.clone();
-      const reader = clonedResponse.body?.getReader();
-      const decoder = new TextDecoder();
-      let assistantResponse = '';
-      
-      if (reader) {
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            
-            const chunk = decoder.decode(value);
-            const lines = chunk.split('\n');
-            
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
-                if (data !== '[DONE]') {
-                  try {
-                    const parsed = JSON.parse(data);
-                    if (parsed.response) {
-                      assistantResponse += parsed.response;
-                    }
-                  } catch (e) {
-                    // Ignore parse errors
-                  }
-                }
-              }
-            }
-          }
-        } finally {
-          reader.releaseLock();
-        }
+    const [clientStream, recordStream] = stream.tee();
+    this.state.waitUntil(this.recordAnswer(recordStream, question, data, env));
+
+    return new Response(clientStream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
+
+  /**
+   * Store the assistant turn once the answer is complete, and title the session after its first answer
+   */
+  private async recordAnswer(stream: ReadableStream, question: string, data: SessionRAGRequest, env: Env): Promise<void> {
+    try {
+      const collected = await collectRAGStream(stream);
+      if (collected.error || !collected.answer) {
+        return;
       }
-      
-      // Save assistant response to history
-      if (assistantResponse) {
-        const updatedHistory = await this.state.storage.get<ChatMessage[]>('history') || [];
-        updatedHistory.push({ role: 'assistant', content: assistantResponse });
-        await this.state.storage.put('history', updatedHistory);
+
+      await this.appendMessage(data.sessionId, data.workspace.id, {
+        role: 'assistant',
+        content: collected.answer,
+        sources: collected.sources,
+        citations: collected.citations,
+      });
+
+      const meta = await this.state.storage.get<SessionInfo>(META_KEY);
+      if (meta && !meta.title) {
+        const title = await generateSessionTitle(question, collected.answer, env);
+        const latest = await this.state.storage.get<SessionInfo>(META_KEY);
+        if (latest) {
+          await this.state.storage.put(META_KEY, { ...latest, title });
+        }
+        await setSessionTitle(env, data.key, title);
       }
+
+      await this.compactHistory(env);
+    } catch (error) {
+      console.error('Session record error:', error);
+    }
+  }
+
+  /**
+   * Fold older turns into the running summary once the unsummarised history is over the threshold
+   */
+  private async compactHistory(env: Env): Promise<void> {
+    const { summaryTokens, recentMessages } = getConfig(env).sessions;
+    const meta = await this.state.storage.get<SessionInfo>(META_KEY);
+    if (!meta) {
+      return;
+    }
+
+    const summarizedThrough = meta.summarizedThrough ?? 0;
+    const pending = await this.listMessages({ startAfter: messageKey(summarizedThrough) });
+    const pendingTokens = pending.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    if (pendingTokens <= summaryTokens || pending.length <= recentMessages) {
+      return;
+    }
+
+    const folded = pending.slice(0, pending.length - recentMessages);
+    const summary = await summarizeConversation(meta.summary, folded, env);
+    if (!summary) {
+      return;
+    }
+
+    // Another turn may have compacted the same messages while the summary was generated
+    const latest = await this.state.storage.get<SessionInfo>(META_KEY);
+    if (!latest || (latest.summarizedThrough ?? 0) !== summarizedThrough) {
+      return;
     }
-    
-    return ragResponse;
+    await this.state.storage.put(META_KEY, { ...latest, summary, summarizedThrough: folded[folded.length - 1].seq });
   }
-  
+
+  // No other I/O happens between reading and writing the metadata, so concurrent turns get distinct seqs
+  private async appendMessage(
+    sessionId: string,
+    workspaceId: string,
+    message: Omit<SessionMessage, 'seq' | 'createdAt'>
+  ): Promise<SessionMessage> {
+    const now = new Date().toISOString();
+    const meta = await this.state.storage.get<SessionInfo>(META_KEY) || {
+      sessionId,
+      workspaceId,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+    };
+
+    const stored: SessionMessage = { ...message, seq: meta.messageCount + 1, createdAt: now };
+    await this.state.storage.put<unknown>({
+      [messageKey(stored.seq)]: stored,
+      [META_KEY]: { ...meta, updatedAt: now, messageCount: stored.seq },
+    });
+    return stored;
+  }
+
+  private async listMessages(options: DurableObjectListOptions = {}): Promise<SessionMessage[]> {
+    const entries = await this.state.storage.list<SessionMessage>({ ...options, prefix: MESSAGE_PREFIX });
+    return [...entries.values()];
+  }
+
+  private async getSession(): Promise<Response> {
+    const session = await this.state.storage.get<SessionInfo>(META_KEY) || null;
+    return new Response(JSON.stringify({ session }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // ?cursor=<seq> returns the messages after that one; nextCursor is null on the last page
+  private async getMessages(url: URL): Promise<Response> {
+    const cursor = parseInt(url.searchParams.get('cursor') || '0', 10) || 0;
+    const limit = Math.min(parseInt(url.searchParams.get('limit') || '', 10) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const messages = await this.listMessages({ ...(cursor > 0 ? { startAfter: messageKey(cursor) } : {}), limit });
+    const meta = await this.state.storage.get<SessionInfo>(META_KEY);
+    const last = messages[messages.length - 1];
+    const nextCursor = last && meta && last.seq < meta.messageCount ? last.seq : null;
+
+    return new Response(JSON.stringify({ messages, nextCursor, total: meta?.messageCount ?? 0 }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private async getTranscript(): Promise<Response> {
+    const session = await this.state.storage.get<SessionInfo>(META_KEY) || null;
+    const messages = await this.listMessages();
+    return new Response(JSON.stringify({ session, messages }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Attach feedback to an assistant turn, returning the turn and the question it answered
+   */
+  private async handleFeedback(request: Request): Promise<Response> {
+    const { seq, feedback } = await request.json() as { seq: number; feedback: AnswerFeedback };
+    const message = await this.state.storage.get<SessionMessage>(messageKey(seq));
+
+    if (!message || message.role !== 'assistant') {
+      return new Response(JSON.stringify({ error: `No assistant message ${seq} in this session` }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const markers = new Set((message.sources || []).map(source => source.index));
+    const unknown = (feedback.wrongCitations || []).filter(marker => !markers.has(marker));
+    if (unknown.length > 0) {
+      return new Response(JSON.stringify({ error: `Unknown citation markers: ${unknown.join(', ')}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const updated: SessionMessage = { ...message, feedback };
+    await this.state.storage.put(messageKey(seq), updated);
+
+    const previous = await this.state.storage.get<SessionMessage>(messageKey(seq - 1));
+    return new Response(JSON.stringify({
+      message: updated,
+      question: previous?.role === 'user' ? previous.content : '',
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
   private async getHistory(): Promise<Response> {
-    const history = (await this.state.storage.get<ChatMessage[]>('history')) || [];
+    const history: ChatMessage[] = (await this.listMessages()).map(({ role, content }) => ({ role, content }));
     return new Response(JSON.stringify({ history }), {
       headers: { 'Content-Type': 'application/json' },
     });
   }
-  
+
   private async clearHistory(): Promise<Response> {
-    await this.state.storage.delete('history');
+    await this.state.storage.deleteAll();
     return new Response(JSON.stringify({ success: true }), {
       headers: { 'Content-Type': 'application/json' },
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,182 @@
+/**
+ * VectorCounter Durable Object
+ *
+ * Holds the vector count of one workspace (one instance per workspace ID). Every change goes
+ * through this single object, so concurrent ingestions can no longer lose updates the way the
+ * read-modify-write on a KV key did. Ingestion reserves slots before upserting and then commits
+ * the actual change, or releases the reservation if it failed. Reservations that are never
+ * settled expire, so a crashed request cannot hold quota forever.
+ *
+ * A new instance does not know how many vectors its workspace already has, so until it is seeded
+ * (or set) every other request fails with 409 and the client seeds it from the KV counter or the
+ * document records.
+ */
+
+interface Reservation {
+  amount: number;
+  expiresAt: number;
+}
+
+class CounterError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export class VectorCounter {
+  private state: DurableObjectState;
+  private loaded = false;
+  private count: number | null = null; // null until seeded
+  private reservations: Record<string, Reservation> = {};
+  private readonly RESERVATION_TTL_MS = 5 * 60_000;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    try {
+      await this.load();
+
+      if (this.count === null && url.pathname !== '/seed' && url.pathname !== '/set') {
+        throw new CounterError('Counter not seeded', 409);
+      }
+
+      if (url.pathname === '/status') {
+        return this.json(this.status());
+      }
+
+      if (request.method !== 'POST') {
+        return new Response('Not found', { status: 404 });
+      }
+
+      const data = await request.json() as any;
+
+      switch (url.pathname) {
+        case '/reserve':
+          return this.json(await this.reserve(requireInteger(data?.amount, 'amount', 0), requireInteger(data?.limit, 'limit', 0)));
+        case '/commit':
+          return this.json(await this.commit(data?.reservationId ?? null, requireInteger(data?.delta, 'delta')));
+        case '/release':
+          return this.json(await this.release(data?.reservationId ?? null));
+        case '/seed':
+          return this.json(await this.seed(requireInteger(data?.count, 'count', 0)));
+        case '/set':
+          return this.json(await this.set(requireInteger(data?.count, 'count', 0)));
+        default:
+          return new Response('Not found', { status: 404 });
+      }
+    } catch (error) {
+      console.error('VectorCounter error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Vector counter request failed';
+      return new Response(JSON.stringify({
+        error: errorMessage
+      }), {
+        status: error instanceof CounterError ? error.status : 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.count = (await this.state.storage.get<number>('count')) ?? null;
+    this.reservations = (await this.state.storage.get<Record<string, Reservation>>('reservations')) ?? {};
+    this.loaded = true;
+  }
+
+  private async save(): Promise<void> {
+    await this.state.storage.put({ count: this.count, reservations: this.reservations });
+  }
+
+  private status(): { count: number; reserved: number } {
+    return { count: this.count ?? 0, reserved: this.reserved() };
+  }
+
+  private reserved(): number {
+    const now = Date.now();
+    let total = 0;
+    for (const [id, reservation] of Object.entries(this.reservations)) {
+      if (reservation.expiresAt <= now) {
+        delete this.reservations[id];
+      } else {
+        total += reservation.amount;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Hold `amount` slots if count plus outstanding reservations stays within `limit`
+   */
+  private async reserve(amount: number, limit: number) {
+    const reserved = this.reserved();
+    const count = this.count ?? 0;
+    const available = limit - count - reserved;
+
+    if (amount > available) {
+      return { allowed: false, reservationId: null, count, reserved, available };
+    }
+
+    const reservationId = crypto.randomUUID();
+    this.reservations[reservationId] = { amount, expiresAt: Date.now() + this.RESERVATION_TTL_MS };
+    await this.save();
+
+    return { allowed: true, reservationId, count, reserved: reserved + amount, available: available - amount };
+  }
+
+  /**
+   * Apply the actual change and drop the reservation it was made under, if any
+   * Deletions commit a negative delta without a reservation.
+   */
+  private async commit(reservationId: string | null, delta: number) {
+    if (reservationId) {
+      delete this.reservations[reservationId];
+    }
+    this.count = Math.max(0, (this.count ?? 0) + delta);
+    await this.save();
+    return this.status();
+  }
+
+  private async release(reservationId: string | null) {
+    if (reservationId && this.reservations[reservationId]) {
+      delete this.reservations[reservationId];
+      await this.save();
+    }
+    return this.status();
+  }
+
+  // Initial count; ignored once seeded, as concurrent first requests may all try to seed
+  private async seed(count: number) {
+    if (this.count === null) {
+      this.count = count;
+      await this.save();
+    }
+    return this.status();
+  }
+
+  // Overwrite the count, used by reconciliation
+  private async set(count: number) {
+    const previous = this.count ?? 0;
+    this.count = count;
+    await this.save();
+    return { ...this.status(), previous };
+  }
+
+  private json(body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+function requireInteger(value: unknown, name: string, min?: number): number {
+  if (!Number.isInteger(value) || (min !== undefined && (value as number) < min)) {
+    throw new CounterError(`Invalid ${name}`, 400);
+  }
+  return value as number;
+}
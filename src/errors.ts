@@ -0,0 +1,175 @@
+/**
+ * Error responses and JSON request bodies
+ *
+ * Every error the API returns has the same envelope, {error: {code, message, details?}}. `code` is
+ * stable for clients to branch on; `message` is for people; `details` carries structured extras
+ * such as the validation issues of a rejected body.
+ */
+
+import { validate } from './validation';
+import type { Schema, ValidationIssue } from './validation';
+import { getConfig } from './config';
+import type { ConfigEnv } from './config';
+
+export const ERROR_CODES = [
+  'invalid_json',
+  'invalid_form',
+  'validation_failed',
+  'invalid_parameter',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'method_not_allowed',
+  'conflict',
+  'payload_too_large',
+  'unsupported_media_type',
+  'unprocessable_content',
+  'rate_limited',
+  'invalid_configuration',
+  'internal_error',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export interface ApiError {
+  status: number;
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+const CODES_BY_STATUS: Record<number, ErrorCode> = {
+  400: 'invalid_parameter',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  405: 'method_not_allowed',
+  409: 'conflict',
+  413: 'payload_too_large',
+  415: 'unsupported_media_type',
+  422: 'unprocessable_content',
+  429: 'rate_limited',
+};
+
+// Code for errors that only carry an HTTP status, such as the result unions of the modules
+export function errorCodeForStatus(status: number): ErrorCode {
+  return CODES_BY_STATUS[status] || 'internal_error';
+}
+
+export function errorResponse(error: ApiError, corsHeaders: any, headers: Record<string, string> = {}): Response {
+  const { status, ...body } = error;
+  return new Response(JSON.stringify({ error: body }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+export type JsonBodyResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: ApiError };
+
+/**
+ * Read and validate a JSON request body
+ * Other content types get 415, bodies over MAX_REQUEST_BYTES 413, and unparseable or invalid
+ * bodies 400 with the validation issues in details.
+ */
+export async function readJsonBody<T>(request: Request, schema: Schema, env: ConfigEnv): Promise<JsonBodyResult<T>> {
+  const mediaType = (request.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+  if (mediaType !== 'application/json' && !mediaType.endsWith('+json')) {
+    return {
+      ok: false,
+      error: { status: 415, code: 'unsupported_media_type', message: 'Content-Type must be application/json' },
+    };
+  }
+
+  const maxBytes = getConfig(env).maxRequestBytes;
+  const tooLarge: JsonBodyResult<T> = {
+    ok: false,
+    error: { status: 413, code: 'payload_too_large', message: `Request body too large: maximum size is ${maxBytes} bytes` },
+  };
+  const declaredLength = parseInt(request.headers.get('Content-Length') || '', 10);
+  if (declaredLength > maxBytes) {
+    return tooLarge;
+  }
+  // Chunked bodies declare no length, so check what actually arrived too
+  const bytes = await request.arrayBuffer();
+  if (bytes.byteLength > maxBytes) {
+    return tooLarge;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    return {
+      ok: false,
+      error: {
+        status: 400,
+        code: 'invalid_json',
+        message: bytes.byteLength === 0 ? 'Request body is empty' : 'Request body is not valid JSON',
+        ...(bytes.byteLength > 0 && error instanceof Error ? { details: { reason: error.message } } : {}),
+      },
+    };
+  }
+
+  const result = validate<T>(schema, data);
+  if (!result.ok) {
+    return {
+      ok: false,
+      error: { status: 400, code: 'validation_failed', message: summarizeIssues(result.issues), details: { issues: result.issues } },
+    };
+  }
+  return result;
+}
+
+/**
+ * Read and validate a multipart/form-data body against the schema of its fields
+ * Other content types get 415 and unparseable or invalid forms 400, as for JSON bodies. The value
+ * has the first entry of each field: a string, or a File for file fields.
+ */
+export async function readFormBody<T>(request: Request, schema: Schema): Promise<JsonBodyResult<T>> {
+  const mediaType = (request.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+  if (mediaType !== 'multipart/form-data') {
+    return {
+      ok: false,
+      error: { status: 415, code: 'unsupported_media_type', message: 'Content-Type must be multipart/form-data' },
+    };
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch (error) {
+    return {
+      ok: false,
+      error: {
+        status: 400,
+        code: 'invalid_form',
+        message: 'Request body is not valid multipart/form-data',
+        ...(error instanceof Error ? { details: { reason: error.message } } : {}),
+      },
+    };
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const [name, value] of form) {
+    if (!(name in fields)) {
+      fields[name] = value;
+    }
+  }
+
+  const result = validate<T>(schema, fields);
+  if (!result.ok) {
+    return {
+      ok: false,
+      error: { status: 400, code: 'validation_failed', message: summarizeIssues(result.issues), details: { issues: result.issues } },
+    };
+  }
+  return result;
+}
+
+function summarizeIssues(issues: ValidationIssue[]): string {
+  const [first] = issues;
+  const summary = `Invalid request body: ${first.path ? `${first.path} ` : ''}${first.message}`;
+  return issues.length > 1 ? `${summary} (and ${issues.length - 1} more)` : summary;
+}
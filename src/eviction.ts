@@ -0,0 +1,54 @@
+/**
+ * Choosing documents to evict when an ingestion exceeds the vector quota
+ *
+ * Unpinned documents are ordered by when they were last retrieved, falling back to their last
+ * change for documents never retrieved, and taken oldest first until enough vectors are freed.
+ */
+
+import type { Env, DocumentRecord } from './types';
+import { listWorkspaceKeys, workspaceKey } from './workspaces';
+import { isInternalKey } from './kv';
+import { getLastRetrieved } from './retrieval-stats';
+
+export interface EvictionCandidate {
+  documentId: string;
+  name: string;
+  vectors: number;
+  lastUsedAt: string; // Last retrieval, or last change if never retrieved
+}
+
+/**
+ * Pick documents freeing at least `needed` vectors, or null if even evicting every unpinned
+ * document would not free enough (nothing should be evicted then)
+ */
+export async function planEviction(env: Env, needed: number, excludeDocumentId: string): Promise<EvictionCandidate[] | null> {
+  const documentIds = (await listWorkspaceKeys(env))
+    .filter(key => !isInternalKey(key) && key !== excludeDocumentId);
+
+  const candidates = (await Promise.all(documentIds.map(async (documentId): Promise<EvictionCandidate | null> => {
+    const record = await env.DOC_METADATA.get(workspaceKey(env, documentId), 'json') as DocumentRecord | null;
+    if (!record || record.pinned || !record.vectorIds?.length) {
+      return null;
+    }
+    return {
+      documentId,
+      name: record.name,
+      vectors: record.vectorIds.length,
+      lastUsedAt: (await getLastRetrieved(env, documentId)) || record.updatedAt || record.uploadedAt,
+    };
+  }))).filter((candidate): candidate is EvictionCandidate => candidate !== null);
+
+  candidates.sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+
+  const plan: EvictionCandidate[] = [];
+  let freed = 0;
+  for (const candidate of candidates) {
+    if (freed >= needed) {
+      break;
+    }
+    plan.push(candidate);
+    freed += candidate.vectors;
+  }
+
+  return freed >= needed ? plan : null;
+}
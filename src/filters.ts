@@ -0,0 +1,83 @@
+/**
+ * Metadata filters for retrieval
+ *
+ * documentId, documentType and workspaceId are pushed down to Vectorize (they need metadata
+ * indexes, see README); every condition is also checked after the query so results are correct
+ * either way.
+ */
+
+import type { QueryFilter, FilterValue } from './types';
+import { DEFAULT_WORKSPACE_ID } from './workspaces';
+
+export function hasFilter(filter?: QueryFilter): filter is QueryFilter {
+  return !!filter && (
+    !!filter.documentIds?.length ||
+    filter.documentType !== undefined ||
+    !!filter.from ||
+    !!filter.to ||
+    (!!filter.metadata && Object.keys(filter.metadata).length > 0)
+  );
+}
+
+/**
+ * Build the Vectorize metadata filter for the workspace and the indexed fields
+ * The workspace is always pushed down so other workspaces' vectors cannot crowd out the top-K.
+ * Vectors from before workspaces have no workspaceId until POST /admin/vectors/reconcile tags them.
+ */
+export function toVectorizeFilter(filter: QueryFilter, workspaceId: string = DEFAULT_WORKSPACE_ID): Record<string, any> {
+  const vectorizeFilter: Record<string, any> = { workspaceId: { $eq: workspaceId } };
+
+  if (filter.documentIds?.length) {
+    vectorizeFilter.documentId = filter.documentIds.length === 1
+      ? { $eq: filter.documentIds[0] }
+      : { $in: filter.documentIds };
+  }
+
+  if (filter.documentType !== undefined) {
+    vectorizeFilter.documentType = Array.isArray(filter.documentType)
+      ? { $in: filter.documentType }
+      : { $eq: filter.documentType };
+  }
+
+  return vectorizeFilter;
+}
+
+export function matchesFilter(metadata: Record<string, any> | undefined, filter: QueryFilter): boolean {
+  if (!metadata) {
+    return false;
+  }
+
+  if (filter.documentIds?.length && !filter.documentIds.includes(metadata.documentId)) {
+    return false;
+  }
+
+  if (filter.documentType !== undefined && !matchesValue(metadata.documentType, filter.documentType)) {
+    return false;
+  }
+
+  if (filter.from || filter.to) {
+    const timestamp = metadata.timestamp ? Date.parse(metadata.timestamp) : NaN;
+    if (Number.isNaN(timestamp)) {
+      return false;
+    }
+    if (filter.from && timestamp < Date.parse(filter.from)) {
+      return false;
+    }
+    if (filter.to && timestamp > Date.parse(filter.to)) {
+      return false;
+    }
+  }
+
+  for (const [key, expected] of Object.entries(filter.metadata || {})) {
+    if (!matchesValue(metadata[key], expected)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// An array of expected values matches any of them
+function matchesValue(actual: unknown, expected: FilterValue | FilterValue[]): boolean {
+  return Array.isArray(expected) ? expected.includes(actual as FilterValue) : actual === expected;
+}
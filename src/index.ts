@@ -1,24 +1,131 @@
-import type { Env, ChatMessage, EmbedResponse, QueryResult } from './types';
-import type { EmbedRequest, RAGRequest, QueryRequest, DeleteDocumentRequest } from './types/requests';
-import { isEmbedRequest, isRAGRequest, isQueryRequest, isDeleteDocumentRequest } from './types/requests';
-import { embedAndStore, queryDocuments, getVectorCount, deleteDocumentVectors } from './vectorize';
+import type { Env, ChatMessage, SessionInfo, SessionMessage, AnswerFeedback, FeedbackRecord, EmbedResponse, QueryResult, RetentionSettings, DocumentSortField } from './types';
+import type {
+  EmbedRequest,
+  RAGRequest,
+  QueryRequest,
+  DeleteDocumentRequest,
+  UpdateRetentionRequest,
+  CreateWorkspaceRequest,
+  DeleteWorkspaceRequest,
+  IssueApiKeyRequest,
+  RevokeApiKeyRequest,
+  FeedbackRequest,
+  ChatCompletionRequest,
+  EmbeddingsRequest,
+  UploadForm,
+} from './types/requests';
+import {
+  EMBED_REQUEST_SCHEMA,
+  RAG_REQUEST_SCHEMA,
+  QUERY_REQUEST_SCHEMA,
+  DELETE_DOCUMENT_REQUEST_SCHEMA,
+  UPDATE_RETENTION_REQUEST_SCHEMA,
+  CREATE_WORKSPACE_REQUEST_SCHEMA,
+  DELETE_WORKSPACE_REQUEST_SCHEMA,
+  ISSUE_API_KEY_REQUEST_SCHEMA,
+  REVOKE_API_KEY_REQUEST_SCHEMA,
+  FEEDBACK_REQUEST_SCHEMA,
+  CHAT_COMPLETION_REQUEST_SCHEMA,
+  EMBEDDINGS_REQUEST_SCHEMA,
+  UPLOAD_FORM_SCHEMA,
+} from './types/requests';
+import {
+  ANALYTICS_RESPONSE_SCHEMA,
+  API_KEY_LIST_RESPONSE_SCHEMA,
+  CHAT_COMPLETION_RESPONSE_SCHEMA,
+  CLEANUP_RESPONSE_SCHEMA,
+  COLLECTION_OUTLINE_RESPONSE_SCHEMA,
+  CONFIG_RESPONSE_SCHEMA,
+  CREATE_WORKSPACE_RESPONSE_SCHEMA,
+  DELETE_DOCUMENT_RESPONSE_SCHEMA,
+  DELETE_SESSION_RESPONSE_SCHEMA,
+  DELETE_WORKSPACE_RESPONSE_SCHEMA,
+  DOCUMENT_LIST_RESPONSE_SCHEMA,
+  DOCUMENT_RESPONSE_SCHEMA,
+  EMBEDDINGS_RESPONSE_SCHEMA,
+  EMBED_RESPONSE_SCHEMA,
+  FEEDBACK_RESPONSE_SCHEMA,
+  HEALTH_RESPONSE_SCHEMA,
+  ISSUE_API_KEY_RESPONSE_SCHEMA,
+  OPENAPI_RESPONSE_SCHEMA,
+  OUTLINE_RESPONSE_SCHEMA,
+  QUERY_RESPONSE_SCHEMA,
+  QUOTA_METRICS_RESPONSE_SCHEMA,
+  RECONCILE_RESPONSE_SCHEMA,
+  RETENTION_RESPONSE_SCHEMA,
+  REVOKE_API_KEY_RESPONSE_SCHEMA,
+  SESSION_EXPORT_RESPONSE_SCHEMA,
+  SESSION_LIST_RESPONSE_SCHEMA,
+  SESSION_MESSAGES_RESPONSE_SCHEMA,
+  SESSION_RESPONSE_SCHEMA,
+  STATUS_RESPONSE_SCHEMA,
+  SUMMARY_RESPONSE_SCHEMA,
+  UPLOAD_RESPONSE_SCHEMA,
+  WORKSPACE_LIST_RESPONSE_SCHEMA,
+} from './types/responses';
+import { embedAndStore, queryDocuments, getVectorUsageStatus, getVectorLimit, deleteDocumentVectors, reconcileVectorCount } from './vectorize';
 import { generateRAGResponse } from './rag';
-import { SessionDO } from './durable-objects/session';
-import { handleScheduledCleanup } from './cleanup';
+import { summarizeDocument, outlineDocument, outlineDocuments, MAX_SUMMARY_WORDS } from './summaries';
+import type { DigestKind } from './digest-cache';
+import { detectDocumentType, parseDocument } from './parsers';
+import { listDocuments, getDocument, DOCUMENT_SORT_FIELDS, DEFAULT_DOCUMENT_PAGE_SIZE, MAX_DOCUMENT_PAGE_SIZE } from './documents';
+import {
+  WORKSPACE_HEADER,
+  resolveWorkspace,
+  withWorkspace,
+  listWorkspaces,
+  createWorkspace,
+  deleteWorkspace,
+  isReservedDocumentId,
+} from './workspaces';
+import { authenticate, hasScope, canAccessWorkspace, canGrantWorkspaces, issueApiKey, listApiKeys, revokeApiKey } from './auth';
+import type { Principal } from './auth';
+import { checkRateLimit, getRateLimitRule, rateLimitHeaders } from './rate-limit';
+import { getAIGateStatus } from './ai';
+import { SessionDO, MAX_PAGE_SIZE } from './durable-objects/session';
+import type { SessionRAGRequest } from './durable-objects/session';
+import { handleScheduledCleanup, runCleanup } from './cleanup';
+import { updateDocumentRetention } from './retention';
+import {
+  sessionKey,
+  getSessionStub,
+  getSessionRecord,
+  touchSession,
+  canAccessSession,
+  listSessions,
+  deleteSessionByKey,
+  formatTranscriptMarkdown,
+} from './sessions';
+import type { SessionRecord } from './sessions';
+import { getConfig, ConfigError } from './config';
+import { saveFeedback, buildAnalyticsReport, DEFAULT_LOW_SCORE_THRESHOLD, MAX_REPORT_ITEMS } from './analytics';
+import { errorResponse, errorCodeForStatus } from './errors';
+import type { ApiError } from './errors';
+import type { Schema, ValidationIssue } from './validation';
+import { createRouter, runMiddleware, routePipeline } from './router';
+import type { RequestContext, RouteDefinition, RouteMatch, Middleware } from './router';
+import { buildOpenAPIDocument } from './openapi';
+import { chatCompletionInput, createChatCompletion, streamChatCompletion, createEmbeddings } from './openai';
 import { AIGate } from './durable-objects/ai-gate';
+import { VectorCounter } from './durable-objects/vector-counter';
+import { RateLimiter } from './durable-objects/rate-limiter';
+import { QueryLog } from './durable-objects/query-log';
+import { LexicalIndex } from './durable-objects/lexical-index';
 
 // Ensure a single, explicit export of DO classes
-export { SessionDO, AIGate };
+export { SessionDO, AIGate, VectorCounter, QueryLog, RateLimiter, LexicalIndex };
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, workerEnv: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
+    const baseEnv: Env = { ...workerEnv, WAIT_UNTIL: promise => ctx.waitUntil(promise) };
 
     // CORS headers
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': `Content-Type, Authorization, X-API-Key, ${WORKSPACE_HEADER}`,
+      'Access-Control-Expose-Headers': 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After',
     };
 
     if (request.method === 'OPTIONS') {
@@ -26,53 +133,41 @@ export default {
     }
 
     try {
-      switch (url.pathname) {
-        case '/health':
-          return new Response(JSON.stringify({ status: 'ok', service: 'iplc-ai' }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          });
-
-        case '/embed':
-          if (request.method !== 'POST') {
-            return new Response('Method not allowed', { status: 405, headers: corsHeaders });
-          }
-          return await handleEmbed(request, env, corsHeaders);
-
-        case '/rag':
-          if (request.method !== 'POST') {
-            return new Response('Method not allowed', { status: 405, headers: corsHeaders });
-          }
-          return await handleRAG(request, env, corsHeaders);
-
-        case '/query':
-          if (request.method !== 'POST') {
-            return new Response('Method not allowed', { status: 405, headers: corsHeaders });
-          }
-          return await handleQuery(request, env, corsHeaders);
-
-        case '/documents':
-          if (request.method === 'GET') {
-            return await handleListDocuments(env, corsHeaders);
-          } else if (request.method === 'DELETE') {
-            return await handleDeleteDocument(request, env, corsHeaders);
-          }
-          return new Response('Method not allowed', { status: 405, headers: corsHeaders });
-
-        case '/metrics/quota':
-          if (request.method !== 'GET') {
-            return new Response('Method not allowed', { status: 405, headers: corsHeaders });
-          }
-          return await handleMetricsQuota(env, corsHeaders);
-
-        default:
-          return new Response('Not found', { status: 404, headers: corsHeaders });
-      }
+      // Reject every request while the deployed configuration is invalid
+      getConfig(baseEnv);
+
+      const match = matchRoute(request.method, url.pathname);
+      const context: RequestContext = {
+        request,
+        url,
+        env: baseEnv,
+        params: match.kind === 'found' ? match.params : {},
+        principal: null,
+        corsHeaders,
+      };
+
+      return await runMiddleware(context, [authenticateRequest(match), scopeToWorkspace, limitRate(match)], async () => {
+        if (match.kind === 'method_not_allowed') {
+          return errorResponse(
+            { status: 405, code: 'method_not_allowed', message: `Method ${request.method} not allowed` },
+            corsHeaders,
+            { Allow: match.allowed.join(', ') }
+          );
+        }
+        if (match.kind === 'not_found') {
+          return errorResponse({ status: 404, code: 'not_found', message: `No route for ${request.method} ${url.pathname}` }, corsHeaders);
+        }
+        return await runMiddleware(context, routePipeline(match.route), match.route.handler);
+      });
     } catch (error) {
       console.error('Worker error:', error);
-      return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+      if (error instanceof ConfigError) {
+        return errorResponse(
+          { status: 500, code: 'invalid_configuration', message: 'Invalid configuration', details: { problems: error.problems } },
+          corsHeaders
+        );
+      }
+      return errorResponse({ status: 500, code: 'internal_error', message: error instanceof Error ? error.message : 'Unknown error' }, corsHeaders);
     }
   },
 
@@ -81,7 +176,7 @@ export default {
       (async () => {
         try {
           console.log(`Scheduled cleanup triggered at ${new Date().toISOString()}`);
-          const results = await handleScheduledCleanup(env as any);
+          const results = await handleScheduledCleanup(env);
           console.log('Cleanup results:', results);
         } catch (error) {
           console.error('Scheduled cleanup error:', error);
@@ -91,24 +186,490 @@ export default {
   },
 };
 
-async function handleEmbed(request: Request, env: Env, corsHeaders: any): Promise<Response> {
-  const data = await request.json();
-  
-  if (!isEmbedRequest(data)) {
-    return new Response(JSON.stringify({ error: 'Invalid input: texts array required' }), {
-      status: 400,
+const BOOLEAN_QUERY: Schema = { type: 'string', enum: ['true', 'false'] };
+const REFRESH_QUERY: Schema = { ...BOOLEAN_QUERY, description: 'Regenerate instead of using the cached copy' };
+
+/**
+ * Every route the Worker serves, matched in order; /openapi.json is generated from this table
+ * Static paths come before the parameterised ones they overlap with.
+ */
+const ROUTES: RouteDefinition[] = [
+  {
+    method: 'GET',
+    path: '/health',
+    operationId: 'getHealth',
+    summary: 'Liveness check',
+    scope: null,
+    response: HEALTH_RESPONSE_SCHEMA,
+    handler: ({ corsHeaders }) => new Response(JSON.stringify({ status: 'ok', service: 'iplc-ai' }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/openapi.json',
+    operationId: 'getOpenAPIDocument',
+    summary: 'This API description',
+    scope: null,
+    response: OPENAPI_RESPONSE_SCHEMA,
+    handler: ({ url, corsHeaders }) => new Response(JSON.stringify(buildOpenAPIDocument(ROUTES, url.origin)), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/config',
+    operationId: 'getConfig',
+    summary: 'Effective non-secret configuration',
+    scope: 'read',
+    response: CONFIG_RESPONSE_SCHEMA,
+    handler: ({ env, corsHeaders }) => handleGetConfig(env, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/embed',
+    operationId: 'embedTexts',
+    summary: 'Chunk, embed and store texts as a document',
+    scope: 'write',
+    rateLimit: 'embed',
+    body: EMBED_REQUEST_SCHEMA,
+    response: EMBED_RESPONSE_SCHEMA,
+    handler: ({ body, env, principal, corsHeaders }) => handleEmbed(body as EmbedRequest, env, principal, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/rag',
+    operationId: 'askQuestion',
+    summary: 'Answer a question from the documents, streamed as server-sent events',
+    scope: 'read',
+    rateLimit: 'chat',
+    body: RAG_REQUEST_SCHEMA,
+    responseTypes: ['text/event-stream'],
+    handler: ({ body, env, principal, corsHeaders }) => handleRAG(body as RAGRequest, env, principal, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/query',
+    operationId: 'queryDocuments',
+    summary: 'Search document chunks',
+    scope: 'read',
+    rateLimit: 'query',
+    body: QUERY_REQUEST_SCHEMA,
+    response: QUERY_RESPONSE_SCHEMA,
+    handler: ({ body, env, corsHeaders }) => handleQuery(body as QueryRequest, env, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/chat/completions',
+    operationId: 'createChatCompletion',
+    summary: 'OpenAI-compatible chat completion answered from the documents',
+    scope: 'read',
+    rateLimit: 'chat',
+    body: CHAT_COMPLETION_REQUEST_SCHEMA,
+    formatError: openAIError,
+    response: CHAT_COMPLETION_RESPONSE_SCHEMA,
+    responseTypes: ['application/json', 'text/event-stream'], // stream: true
+    handler: ({ body, env, corsHeaders }) => handleChatCompletions(body as ChatCompletionRequest, env, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/embeddings',
+    operationId: 'createEmbeddings',
+    summary: 'OpenAI-compatible embeddings',
+    scope: 'read',
+    rateLimit: 'embed',
+    body: EMBEDDINGS_REQUEST_SCHEMA,
+    formatError: openAIError,
+    response: EMBEDDINGS_RESPONSE_SCHEMA,
+    handler: ({ body, env, corsHeaders }) => handleEmbeddings(body as EmbeddingsRequest, env, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/documents',
+    operationId: 'listDocuments',
+    summary: 'Page through the documents, filtered and sorted',
+    scope: 'read',
+    query: {
+      sort: { type: 'string', enum: DOCUMENT_SORT_FIELDS, description: 'Default uploadedAt' },
+      order: { type: 'string', enum: ['asc', 'desc'], description: 'Default asc for name, desc otherwise' },
+      type: { type: 'string', description: 'Only documents of this type' },
+      name: { type: 'string', description: 'Only documents whose name contains this, case-insensitive' },
+      cursor: { type: 'string', description: 'nextCursor of the previous page' },
+      limit: { type: 'integer', minimum: 1, maximum: MAX_DOCUMENT_PAGE_SIZE, description: `Default ${DEFAULT_DOCUMENT_PAGE_SIZE}` },
+    },
+    response: DOCUMENT_LIST_RESPONSE_SCHEMA,
+    handler: ({ url, env, corsHeaders }) => handleListDocuments(url, env, corsHeaders),
+  },
+  {
+    method: 'DELETE',
+    path: '/documents',
+    operationId: 'deleteDocumentByBody',
+    summary: 'Delete a document named in the request body; use DELETE /documents/{id}',
+    scope: 'delete',
+    body: DELETE_DOCUMENT_REQUEST_SCHEMA,
+    deprecated: true,
+    response: DELETE_DOCUMENT_RESPONSE_SCHEMA,
+    handler: ({ body, env, corsHeaders }) => handleDeleteDocument((body as DeleteDocumentRequest).documentId, env, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/documents/upload',
+    operationId: 'uploadDocument',
+    summary: 'Upload, parse, chunk and embed a file',
+    scope: 'write',
+    rateLimit: 'embed',
+    form: UPLOAD_FORM_SCHEMA,
+    response: UPLOAD_RESPONSE_SCHEMA,
+    handler: ({ body, env, principal, corsHeaders }) => handleUploadDocument(body as UploadForm, env, principal, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/documents/retention',
+    operationId: 'updateDocumentRetention',
+    summary: 'Pin a document or change its time to live',
+    scope: 'write',
+    body: UPDATE_RETENTION_REQUEST_SCHEMA,
+    response: RETENTION_RESPONSE_SCHEMA,
+    handler: ({ body, env, corsHeaders }) => handleUpdateRetention(body as UpdateRetentionRequest, env, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/documents/outline',
+    operationId: 'outlineDocuments',
+    summary: 'Outline several documents, or the whole workspace',
+    scope: 'read',
+    rateLimit: 'chat',
+    query: {
+      ids: { type: 'string', description: 'Comma-separated document IDs; all documents when omitted' },
+      refresh: REFRESH_QUERY,
+    },
+    response: COLLECTION_OUTLINE_RESPONSE_SCHEMA,
+    handler: ({ url, env, corsHeaders }) => handleCollectionOutline(url, env, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/documents/:id/summary',
+    operationId: 'summarizeDocument',
+    summary: 'Summarise a document',
+    scope: 'read',
+    // Summaries and outlines run the chat model over the whole document
+    rateLimit: 'chat',
+    query: {
+      words: { type: 'integer', minimum: 1, maximum: MAX_SUMMARY_WORDS, description: 'Target summary length' },
+      refresh: REFRESH_QUERY,
+    },
+    response: SUMMARY_RESPONSE_SCHEMA,
+    handler: ({ params, url, env, corsHeaders }) => handleDocumentDigest(params.id, 'summary', url, env, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/documents/:id/outline',
+    operationId: 'outlineDocument',
+    summary: 'Outline a document',
+    scope: 'read',
+    rateLimit: 'chat',
+    query: { refresh: REFRESH_QUERY },
+    response: OUTLINE_RESPONSE_SCHEMA,
+    handler: ({ params, url, env, corsHeaders }) => handleDocumentDigest(params.id, 'outline', url, env, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/documents/:id',
+    operationId: 'getDocument',
+    summary: 'Get a document record with the text of every chunk',
+    scope: 'read',
+    response: DOCUMENT_RESPONSE_SCHEMA,
+    handler: ({ params, env, corsHeaders }) => handleGetDocument(params.id, env, corsHeaders),
+  },
+  {
+    method: 'DELETE',
+    path: '/documents/:id',
+    operationId: 'deleteDocument',
+    summary: 'Delete a document and its vectors',
+    scope: 'delete',
+    response: DELETE_DOCUMENT_RESPONSE_SCHEMA,
+    handler: ({ params, env, corsHeaders }) => handleDeleteDocument(params.id, env, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/feedback',
+    operationId: 'submitFeedback',
+    summary: 'Rate an answer',
+    scope: 'read',
+    body: FEEDBACK_REQUEST_SCHEMA,
+    response: FEEDBACK_RESPONSE_SCHEMA,
+    handler: ({ body, env, principal, corsHeaders }) => handleFeedback(body as FeedbackRequest, env, principal, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/sessions',
+    operationId: 'listSessions',
+    summary: 'List chat sessions',
+    scope: 'read',
+    response: SESSION_LIST_RESPONSE_SCHEMA,
+    handler: ({ env, principal, corsHeaders }) => handleListSessions(env, principal, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/sessions/:id',
+    operationId: 'getSession',
+    summary: 'Get a chat session',
+    scope: 'read',
+    response: SESSION_RESPONSE_SCHEMA,
+    handler: ({ params, url, env, principal, corsHeaders }) => handleGetSession(params.id, undefined, url, env, principal, corsHeaders),
+  },
+  {
+    method: 'DELETE',
+    path: '/sessions/:id',
+    operationId: 'deleteSession',
+    summary: 'Delete a chat session and its transcript',
+    scope: 'delete',
+    response: DELETE_SESSION_RESPONSE_SCHEMA,
+    handler: ({ params, env, principal, corsHeaders }) => handleDeleteSession(params.id, env, principal, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/sessions/:id/messages',
+    operationId: 'listSessionMessages',
+    summary: 'Page through the messages of a chat session',
+    scope: 'read',
+    query: {
+      cursor: { type: 'integer', minimum: 0, description: 'Message number to start after' },
+      limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE },
+    },
+    response: SESSION_MESSAGES_RESPONSE_SCHEMA,
+    handler: ({ params, url, env, principal, corsHeaders }) => handleGetSession(params.id, 'messages', url, env, principal, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/sessions/:id/export',
+    operationId: 'exportSession',
+    summary: 'Download a chat session transcript',
+    scope: 'read',
+    query: { format: { type: 'string', enum: ['markdown', 'json'] } },
+    response: SESSION_EXPORT_RESPONSE_SCHEMA,
+    responseTypes: ['text/markdown', 'application/json'], // format=json
+    handler: ({ params, url, env, principal, corsHeaders }) => handleGetSession(params.id, 'export', url, env, principal, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/workspaces',
+    operationId: 'listWorkspaces',
+    summary: 'List workspaces',
+    scope: 'read',
+    response: WORKSPACE_LIST_RESPONSE_SCHEMA,
+    handler: ({ env, principal, corsHeaders }) => handleListWorkspaces(env, principal, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/workspaces',
+    operationId: 'createWorkspace',
+    summary: 'Create a workspace',
+    scope: 'admin',
+    allWorkspaces: true,
+    body: CREATE_WORKSPACE_REQUEST_SCHEMA,
+    response: CREATE_WORKSPACE_RESPONSE_SCHEMA,
+    successStatus: 201,
+    handler: ({ body, env, corsHeaders }) => handleCreateWorkspace(body as CreateWorkspaceRequest, env, corsHeaders),
+  },
+  {
+    method: 'DELETE',
+    path: '/workspaces',
+    operationId: 'deleteWorkspace',
+    summary: 'Delete a workspace and everything in it',
+    scope: 'admin',
+    body: DELETE_WORKSPACE_REQUEST_SCHEMA,
+    response: DELETE_WORKSPACE_RESPONSE_SCHEMA,
+    handler: ({ body, env, principal, corsHeaders }) => handleDeleteWorkspace(body as DeleteWorkspaceRequest, env, principal, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/admin/keys',
+    operationId: 'listApiKeys',
+    summary: 'List API keys',
+    scope: 'admin',
+    allWorkspaces: true,
+    response: API_KEY_LIST_RESPONSE_SCHEMA,
+    handler: ({ env, corsHeaders }) => handleListApiKeys(env, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/admin/keys',
+    operationId: 'issueApiKey',
+    summary: 'Issue an API key',
+    scope: 'admin',
+    body: ISSUE_API_KEY_REQUEST_SCHEMA,
+    response: ISSUE_API_KEY_RESPONSE_SCHEMA,
+    successStatus: 201,
+    handler: ({ body, env, principal, corsHeaders }) => handleIssueApiKey(body as IssueApiKeyRequest, env, principal, corsHeaders),
+  },
+  {
+    method: 'DELETE',
+    path: '/admin/keys',
+    operationId: 'revokeApiKey',
+    summary: 'Revoke an API key',
+    scope: 'admin',
+    allWorkspaces: true,
+    body: REVOKE_API_KEY_REQUEST_SCHEMA,
+    response: REVOKE_API_KEY_RESPONSE_SCHEMA,
+    handler: ({ body, env, corsHeaders }) => handleRevokeApiKey(body as RevokeApiKeyRequest, env, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/admin/cleanup/preview',
+    operationId: 'previewCleanup',
+    summary: 'List what the retention cleanup would delete',
+    scope: 'admin',
+    allWorkspaces: true,
+    response: CLEANUP_RESPONSE_SCHEMA,
+    handler: ({ env, corsHeaders }) => handleCleanup(env, true, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/admin/cleanup/run',
+    operationId: 'runCleanup',
+    summary: 'Run the retention cleanup now',
+    scope: 'admin',
+    allWorkspaces: true,
+    response: CLEANUP_RESPONSE_SCHEMA,
+    handler: ({ env, corsHeaders }) => handleCleanup(env, false, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/admin/analytics',
+    operationId: 'getAnalytics',
+    summary: 'Answer feedback and retrieval quality report',
+    scope: 'admin',
+    query: {
+      threshold: { type: 'number', description: `Top retrieval score below which a query counts as low scoring (default ${DEFAULT_LOW_SCORE_THRESHOLD})` },
+      limit: { type: 'integer', minimum: 1, maximum: MAX_REPORT_ITEMS },
+    },
+    response: ANALYTICS_RESPONSE_SCHEMA,
+    handler: ({ url, env, corsHeaders }) => handleAnalytics(url, env, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/admin/vectors/reconcile',
+    operationId: 'checkVectorCount',
+    summary: 'Compare the stored vector count with the documents',
+    scope: 'admin',
+    allWorkspaces: true,
+    response: RECONCILE_RESPONSE_SCHEMA,
+    handler: ({ env, corsHeaders }) => handleReconcileVectors(env, false, corsHeaders),
+  },
+  {
+    method: 'POST',
+    path: '/admin/vectors/reconcile',
+    operationId: 'reconcileVectorCount',
+    summary: 'Correct the stored vector count from the documents',
+    scope: 'admin',
+    allWorkspaces: true,
+    response: RECONCILE_RESPONSE_SCHEMA,
+    handler: ({ env, corsHeaders }) => handleReconcileVectors(env, true, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/status',
+    operationId: 'getStatus',
+    summary: 'Vector usage and AI concurrency status',
+    scope: 'read',
+    response: STATUS_RESPONSE_SCHEMA,
+    handler: ({ env, corsHeaders }) => handleStatus(env, corsHeaders),
+  },
+  {
+    method: 'GET',
+    path: '/metrics/quota',
+    operationId: 'getQuotaMetrics',
+    summary: 'Vector quota usage',
+    scope: 'read',
+    response: QUOTA_METRICS_RESPONSE_SCHEMA,
+    handler: ({ env, corsHeaders }) => handleMetricsQuota(env, corsHeaders),
+  },
+];
+
+const matchRoute = createRouter(ROUTES);
+
+/**
+ * Authenticate before touching anything else, including workspace lookup
+ * Unknown paths still require a key so the 404 does not reveal anything to anonymous callers.
+ */
+function authenticateRequest(match: RouteMatch): Middleware {
+  const scope = match.kind === 'found' ? match.route.scope : 'read';
+  const allWorkspaces = match.kind === 'found' && match.route.allWorkspaces;
+
+  return async (context, next) => {
+    if (!scope) {
+      return await next();
+    }
+
+    const auth = await authenticate(context.request, context.env, scope);
+    if (!auth.ok) {
+      return errorResponse(
+        { status: auth.status, code: errorCodeForStatus(auth.status), message: auth.error },
+        context.corsHeaders,
+        auth.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {}
+      );
+    }
+    if (allWorkspaces && auth.principal.workspaceIds) {
+      return errorResponse({ status: 403, code: 'forbidden', message: 'API key is restricted to some workspaces and cannot act on all of them' }, context.corsHeaders);
+    }
+    context.principal = auth.principal;
+    return await next();
+  };
+}
+
+// Everything except workspace management is scoped to the requested workspace
+const scopeToWorkspace: Middleware = async (context, next) => {
+  const workspace = await resolveWorkspace(context.request, context.env);
+  if (!workspace) {
+    return errorResponse(
+      { status: 404, code: 'not_found', message: `Workspace not found: ${context.request.headers.get(WORKSPACE_HEADER)}` },
+      context.corsHeaders
+    );
+  }
+  if (context.principal && !canAccessWorkspace(context.principal, workspace.id)) {
+    return errorResponse({ status: 403, code: 'forbidden', message: `API key cannot access workspace: ${workspace.id}` }, context.corsHeaders);
   }
-  
-  const { texts, metadata } = data;
+  context.env = withWorkspace(context.env, workspace);
+  return await next();
+};
 
-  // Validate metadata if provided
-  if (metadata && (!metadata.documentId || !metadata.documentName || !metadata.documentType)) {
-    return new Response(JSON.stringify({ error: 'Invalid metadata: documentId, documentName, and documentType are required' }), {
-      status: 400,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+// Count the request against its route's budget and report the remaining budget on the response
+function limitRate(match: RouteMatch): Middleware {
+  const rateLimitClass = match.kind === 'found' ? match.route.rateLimit : undefined;
+
+  return async (context, next) => {
+    if (!rateLimitClass) {
+      return await next();
+    }
+
+    // Budgets are per API key; every rate-limited route requires one
+    const { env } = context;
+    const principal = context.principal!;
+    const rule = getRateLimitRule(env, rateLimitClass, principal.rateLimits);
+    const rateLimit = await checkRateLimit(env, rateLimitClass, `key:${principal.keyId}`, rule);
+
+    if (!rateLimit.allowed) {
+      return errorResponse(
+        { status: 429, code: 'rate_limited', message: `Rate limit exceeded for ${rateLimitClass} requests` },
+        context.corsHeaders,
+        rateLimitHeaders(rateLimit)
+      );
+    }
+
+    const response = await next();
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+      headers.set(name, value);
+    }
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+  };
+}
+
+async function handleEmbed(data: EmbedRequest, env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
+  const { texts, metadata, chunking, retention, overflow } = data;
+  if (overflow === 'evict' && !canEvict(principal)) {
+    return evictForbidden(corsHeaders);
   }
 
   try {
@@ -120,44 +681,111 @@ async function handleEmbed(request: Request, env: Env, corsHeaders: any): Promis
       timestamp: new Date().toISOString()
     };
     
-    const result = await embedAndStore(texts, embedMetadata, env);
+    const result = await embedAndStore(texts, embedMetadata, env, { chunking, retention, overflow });
     return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Embed error:', error);
-    return new Response(JSON.stringify({ error: 'Failed to embed documents' }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to embed documents' }, corsHeaders);
   }
 }
 
-async function handleRAG(request: Request, env: Env, corsHeaders: any): Promise<Response> {
-  const data = await request.json();
-  
-  if (!isRAGRequest(data)) {
-    return new Response(JSON.stringify({ error: 'Question is required' }), {
-      status: 400,
+async function handleUploadDocument(form: UploadForm, env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
+  const { file } = form;
+  if (form.overflow === 'evict' && !canEvict(principal)) {
+    return evictForbidden(corsHeaders);
+  }
+
+  // Workers request bodies are capped well above this, but parsing large PDFs in-memory is expensive
+  const { maxUploadBytes } = getConfig(env);
+  if (file.size > maxUploadBytes) {
+    return errorResponse({ status: 413, code: 'payload_too_large', message: `File too large: maximum size is ${maxUploadBytes} bytes` }, corsHeaders);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const documentType = detectDocumentType(bytes, file.name, file.type);
+
+  if (!documentType) {
+    return errorResponse({ status: 415, code: 'unsupported_media_type', message: 'Unsupported file type: expected PDF, DOCX, Markdown, HTML or plain text' }, corsHeaders);
+  }
+
+  try {
+    const parsed = await parseDocument(bytes, documentType);
+
+    if (parsed.sections.length === 0) {
+      return errorResponse({ status: 422, code: 'unprocessable_content', message: 'No text could be extracted from the file' }, corsHeaders);
+    }
+
+    const documentId = form.documentId || `doc-${Date.now()}`;
+    const documentName = form.documentName || file.name || 'Untitled Document';
+    // Markdown keeps its structure through parsing, so chunk it by headings unless told otherwise
+    const strategy = form.chunkStrategy || (documentType === 'markdown' ? 'markdown' : undefined);
+
+    const result = await embedAndStore(
+      parsed.sections.map(section => section.text),
+      {
+        documentId,
+        documentName,
+        documentType,
+        timestamp: new Date().toISOString(),
+      },
+      env,
+      {
+        pageNumbers: parsed.sections.map(section => section.pageNumber),
+        chunking: { strategy },
+        retention: uploadRetention(form),
+        overflow: form.overflow,
+      }
+    );
+
+    return new Response(JSON.stringify({
+      ...result,
+      documentId,
+      documentName,
+      documentType,
+      pageCount: parsed.pageCount,
+      sectionsCount: parsed.sections.length,
+    }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } catch (error) {
+    console.error('Upload document error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to process uploaded document' }, corsHeaders);
   }
-  
-  const { question, history = [], sessionId } = data;
+}
+
+async function handleRAG(data: RAGRequest, env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
+  const { question, history = [], sessionId, retrieval, rewrite, context } = data;
 
   try {
     // Use Durable Object for session management if sessionId provided
     if (sessionId) {
-      const id = env.SESSION_DO.idFromName(sessionId);
-      const session = env.SESSION_DO.get(id);
-      const sessionResponse = await session.fetch(request);
+      const record = await getSessionRecord(env, sessionId);
+      if (record && !canAccessSession(principal, record)) {
+        return errorResponse({ status: 403, code: 'forbidden', message: `Session belongs to another API key: ${sessionId}` }, corsHeaders);
+      }
+      await touchSession(env, sessionId, principal?.keyId);
+
+      const body: SessionRAGRequest = {
+        sessionId,
+        key: sessionKey(env, sessionId),
+        workspace: env.WORKSPACE!,
+        rag: data,
+      };
+      const sessionResponse = await getSessionStub(env, sessionId).fetch('https://session/rag', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
       return new Response(sessionResponse.body, {
-        headers: { ...corsHeaders, ...Object.fromEntries(sessionResponse.headers) },
+        status: sessionResponse.status,
+        headers: { ...corsHeaders, ...Object.fromEntries(sessionResponse.headers), 'Connection': 'keep-alive' },
       });
     }
 
     // Direct RAG response without session
-    const stream = await generateRAGResponse(question, history, env);
+    const stream = await generateRAGResponse(question, history, env, { retrieval, rewrite, context });
     return new Response(stream, {
       headers: {
         ...corsHeaders,
@@ -168,72 +796,370 @@ async function handleRAG(request: Request, env: Env, corsHeaders: any): Promise<
     });
   } catch (error) {
     console.error('RAG error:', error);
-    return new Response(JSON.stringify({ error: 'Failed to generate response' }), {
-      status: 500,
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to generate response' }, corsHeaders);
+  }
+}
+
+// OpenAI-style error body, so OpenAI client libraries surface the message; code and details are ours
+function openAIError(error: ApiError, corsHeaders: any): Response {
+  const { status, code, message, details } = error;
+  const issues = (details as { issues?: ValidationIssue[] } | undefined)?.issues;
+  return new Response(JSON.stringify({
+    error: {
+      message,
+      type: status >= 500 ? 'server_error' : 'invalid_request_error',
+      param: issues?.[0]?.path || null,
+      code,
+      ...(details !== undefined ? { details } : {}),
+    },
+  }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function handleChatCompletions(data: ChatCompletionRequest, env: Env, corsHeaders: any): Promise<Response> {
+  const input = chatCompletionInput(data.messages);
+  if (!input) {
+    return openAIError({
+      status: 400,
+      code: 'validation_failed',
+      message: 'The last message must be a non-empty user message',
+      details: { issues: [{ path: `messages[${data.messages.length - 1}]`, message: 'must be a non-empty user message' }] },
+    }, corsHeaders);
+  }
+
+  try {
+    if (data.stream) {
+      const stream = await streamChatCompletion(data, input, env);
+      return new Response(stream, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
+      });
+    }
+
+    const result = await createChatCompletion(data, input, env);
+    if (!result.ok) {
+      return openAIError({ status: 500, code: 'internal_error', message: result.error }, corsHeaders);
+    }
+    return new Response(JSON.stringify(result.completion), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } catch (error) {
+    console.error('Chat completion error:', error);
+    return openAIError({ status: 500, code: 'internal_error', message: 'Failed to generate response' }, corsHeaders);
   }
 }
 
-async function handleQuery(request: Request, env: Env, corsHeaders: any): Promise<Response> {
-  const data = await request.json();
-  
-  if (!isQueryRequest(data)) {
-    return new Response(JSON.stringify({ error: 'Query is required' }), {
-      status: 400,
+async function handleEmbeddings(data: EmbeddingsRequest, env: Env, corsHeaders: any): Promise<Response> {
+  try {
+    const embeddings = await createEmbeddings(data, env);
+    return new Response(JSON.stringify(embeddings), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } catch (error) {
+    console.error('Embeddings error:', error);
+    return openAIError({ status: 500, code: 'internal_error', message: 'Failed to create embeddings' }, corsHeaders);
   }
-  
-  const { query, limit = 10 } = data;
+}
 
+async function handleListSessions(env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
   try {
-    const results = await queryDocuments(query, limit, env);
-    return new Response(JSON.stringify(results), {
+    const sessions = await listSessions(env, principal);
+    return new Response(JSON.stringify({ sessions }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
-    console.error('Query error:', error);
-    return new Response(JSON.stringify({ error: 'Failed to query documents' }), {
-      status: 500,
+    console.error('List sessions error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to list sessions' }, corsHeaders);
+  }
+}
+
+/**
+ * Registry record for a session the principal may access, or the error response to return
+ */
+async function findSession(
+  sessionId: string,
+  env: Env,
+  principal: Principal | null,
+  corsHeaders: any
+): Promise<{ ok: true; record: SessionRecord } | { ok: false; response: Response }> {
+  const record = await getSessionRecord(env, sessionId);
+  if (!record) {
+    return {
+      ok: false,
+      response: errorResponse({ status: 404, code: 'not_found', message: `Session not found: ${sessionId}` }, corsHeaders),
+    };
+  }
+  if (!canAccessSession(principal, record)) {
+    return {
+      ok: false,
+      response: errorResponse({ status: 403, code: 'forbidden', message: `Session belongs to another API key: ${sessionId}` }, corsHeaders),
+    };
+  }
+  return { ok: true, record };
+}
+
+// GET /sessions/:id, GET /sessions/:id/messages?cursor=&limit= and GET /sessions/:id/export?format=markdown|json
+async function handleGetSession(
+  sessionId: string,
+  view: 'messages' | 'export' | undefined,
+  url: URL,
+  env: Env,
+  principal: Principal | null,
+  corsHeaders: any
+): Promise<Response> {
+  try {
+    const found = await findSession(sessionId, env, principal, corsHeaders);
+    if (!found.ok) {
+      return found.response;
+    }
+    const { record } = found;
+    const stub = getSessionStub(env, sessionId);
+
+    if (view === 'messages') {
+      const cursor = url.searchParams.get('cursor');
+      const limit = url.searchParams.get('limit');
+      if ((cursor !== null && !/^\d+$/.test(cursor)) ||
+          (limit !== null && (!/^\d+$/.test(limit) || parseInt(limit, 10) < 1 || parseInt(limit, 10) > MAX_PAGE_SIZE))) {
+        return errorResponse({ status: 400, code: 'invalid_parameter', message: `Invalid pagination: cursor must be a message number and limit between 1 and ${MAX_PAGE_SIZE}` }, corsHeaders);
+      }
+      const page = await stub.fetch(`https://session/messages${url.search}`);
+      return new Response(page.body, {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (view === 'export') {
+      const format = url.searchParams.get('format') || 'markdown';
+      if (format !== 'markdown' && format !== 'json') {
+        return errorResponse({ status: 400, code: 'invalid_parameter', message: 'Invalid format: expected markdown or json' }, corsHeaders);
+      }
+
+      const transcript = await (await stub.fetch('https://session/transcript')).json() as {
+        session: SessionInfo | null;
+        messages: SessionMessage[];
+      };
+      const session = sessionInfo(record, transcript.session);
+      const filename = `session-${sessionId.replace(/[^\w.-]+/g, '_')}.${format === 'json' ? 'json' : 'md'}`;
+
+      return new Response(
+        format === 'json'
+          ? JSON.stringify({ session, messages: transcript.messages }, null, 2)
+          : formatTranscriptMarkdown(session, transcript.messages),
+        {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': format === 'json' ? 'application/json' : 'text/markdown; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+          },
+        }
+      );
+    }
+
+    const { session } = await (await stub.fetch('https://session/session')).json() as { session: SessionInfo | null };
+    return new Response(JSON.stringify({ ...sessionInfo(record, session), ownerKeyId: record.ownerKeyId }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } catch (error) {
+    console.error('Get session error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to get session' }, corsHeaders);
   }
 }
 
-async function handleListDocuments(env: Env, corsHeaders: any): Promise<Response> {
+// Session details from the Durable Object, or from the registry when no turn has been stored yet
+function sessionInfo(record: SessionRecord, stored: SessionInfo | null): SessionInfo {
+  return stored ?? {
+    sessionId: record.sessionId,
+    workspaceId: record.workspaceId,
+    title: record.title,
+    createdAt: record.createdAt,
+    updatedAt: record.lastActiveAt,
+    messageCount: 0,
+  };
+}
+
+async function handleDeleteSession(sessionId: string, env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
   try {
-    const documents = await env.DOC_METADATA.list();
-    const docList = await Promise.all(
-      documents.keys.map(async (key) => {
-        const metadata = await env.DOC_METADATA.get(key.name, 'json');
-        return { id: key.name, ...(metadata || {}) };
-      })
-    );
-    
-    return new Response(JSON.stringify({ documents: docList }), {
+    const found = await findSession(sessionId, env, principal, corsHeaders);
+    if (!found.ok) {
+      return found.response;
+    }
+
+    await deleteSessionByKey(env, sessionKey(env, sessionId));
+    return new Response(JSON.stringify({ success: true, sessionId }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
-    console.error('List documents error:', error);
-    return new Response(JSON.stringify({ error: 'Failed to list documents' }), {
-      status: 500,
+    console.error('Delete session error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to delete session' }, corsHeaders);
+  }
+}
+
+/**
+ * Rate an assistant turn of a session, stored with the chunks that were retrieved for it
+ */
+async function handleFeedback(data: FeedbackRequest, env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
+  const { sessionId, messageSeq, rating, comment, wrongCitations } = data;
+
+  try {
+    const found = await findSession(sessionId, env, principal, corsHeaders);
+    if (!found.ok) {
+      return found.response;
+    }
+
+    const feedback: AnswerFeedback = {
+      rating,
+      ...(comment ? { comment } : {}),
+      ...(wrongCitations && wrongCitations.length > 0 ? { wrongCitations } : {}),
+      createdAt: new Date().toISOString(),
+    };
+    const turnResponse = await getSessionStub(env, sessionId).fetch('https://session/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ seq: messageSeq, feedback }),
+    });
+    if (!turnResponse.ok) {
+      const { error } = await turnResponse.json() as { error: string };
+      return errorResponse({ status: turnResponse.status, code: errorCodeForStatus(turnResponse.status), message: error }, corsHeaders);
+    }
+
+    const { message, question } = await turnResponse.json() as { message: SessionMessage; question: string };
+    const sources = message.sources || [];
+    const record: FeedbackRecord = {
+      ...feedback,
+      sessionId,
+      messageSeq,
+      ...(principal ? { keyId: principal.keyId } : {}),
+      question,
+      answer: message.content,
+      chunkIds: sources.map(source => source.vectorId),
+      wrongSources: sources.filter(source => feedback.wrongCitations?.includes(source.index)),
+    };
+    await saveFeedback(env, record);
+
+    return new Response(JSON.stringify({ success: true, feedback: record }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } catch (error) {
+    console.error('Feedback error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to save feedback' }, corsHeaders);
   }
 }
 
-async function handleDeleteDocument(request: Request, env: Env, corsHeaders: any): Promise<Response> {
-  const data = await request.json();
-  
-  if (!isDeleteDocumentRequest(data)) {
-    return new Response(JSON.stringify({ error: 'Document ID is required' }), {
-      status: 400,
+// GET /admin/analytics?threshold=0.5&limit=20
+async function handleAnalytics(url: URL, env: Env, corsHeaders: any): Promise<Response> {
+  const thresholdParam = url.searchParams.get('threshold');
+  const limitParam = url.searchParams.get('limit');
+  const threshold = thresholdParam === null ? DEFAULT_LOW_SCORE_THRESHOLD : Number(thresholdParam);
+  const limit = limitParam === null ? undefined : Number(limitParam);
+
+  if (!Number.isFinite(threshold) || (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPORT_ITEMS))) {
+    return errorResponse({ status: 400, code: 'invalid_parameter', message: `Invalid parameters: threshold must be a number and limit between 1 and ${MAX_REPORT_ITEMS}` }, corsHeaders);
+  }
+
+  try {
+    const report = await buildAnalyticsReport(env, { threshold, limit });
+    return new Response(JSON.stringify(report), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Analytics error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to build analytics report' }, corsHeaders);
+  }
+}
+
+async function handleQuery(data: QueryRequest, env: Env, corsHeaders: any): Promise<Response> {
+  const { query, limit = 10, mode, weights, filter, rerank } = data;
+
+  try {
+    const results = await queryDocuments(query, limit, env, { mode, weights, filter, rerank });
+    return new Response(JSON.stringify(results), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Query error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to query documents' }, corsHeaders);
+  }
+}
+
+// Effective non-secret configuration; ADMIN_API_KEY and the bindings are never included
+function handleGetConfig(env: Env, corsHeaders: any): Response {
+  return new Response(JSON.stringify({
+    workspaceId: env.WORKSPACE?.id,
+    vectorLimit: getVectorLimit(env),
+    config: getConfig(env),
+  }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+// GET /documents?sort=name|uploadedAt|chunksCount&order=asc|desc&type=&name=&cursor=&limit=
+async function handleListDocuments(url: URL, env: Env, corsHeaders: any): Promise<Response> {
+  const params = url.searchParams;
+  const sort = params.get('sort');
+  const order = params.get('order');
+  const limitParam = params.get('limit');
+  const limit = limitParam === null ? undefined : Number(limitParam);
+
+  if (sort !== null && !DOCUMENT_SORT_FIELDS.includes(sort as DocumentSortField)) {
+    return errorResponse({ status: 400, code: 'invalid_parameter', message: `Invalid sort: expected one of ${DOCUMENT_SORT_FIELDS.join(', ')}` }, corsHeaders);
+  }
+  if (order !== null && order !== 'asc' && order !== 'desc') {
+    return errorResponse({ status: 400, code: 'invalid_parameter', message: 'Invalid order: expected asc or desc' }, corsHeaders);
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_DOCUMENT_PAGE_SIZE)) {
+    return errorResponse({ status: 400, code: 'invalid_parameter', message: `Invalid limit: expected an integer between 1 and ${MAX_DOCUMENT_PAGE_SIZE}` }, corsHeaders);
+  }
+
+  try {
+    const result = await listDocuments(env, {
+      sort: (sort as DocumentSortField | null) || undefined,
+      order: (order as 'asc' | 'desc' | null) || undefined,
+      type: params.get('type') || undefined,
+      name: params.get('name') || undefined,
+      cursor: params.get('cursor') || undefined,
+      limit,
+    });
+
+    if (!result.ok) {
+      return errorResponse({ status: result.status, code: 'invalid_parameter', message: result.error }, corsHeaders);
+    }
+
+    return new Response(JSON.stringify(result.page), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('List documents error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to list documents' }, corsHeaders);
+  }
+}
+
+async function handleGetDocument(documentId: string, env: Env, corsHeaders: any): Promise<Response> {
+  try {
+    const result = await getDocument(env, documentId);
+    if (!result.ok) {
+      return errorResponse({ status: result.status, code: 'not_found', message: result.error }, corsHeaders);
+    }
+
+    return new Response(JSON.stringify(result.document), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } catch (error) {
+    console.error('Get document error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to get document' }, corsHeaders);
+  }
+}
+
+// DELETE /documents/:id, and the older DELETE /documents with the ID in the body
+async function handleDeleteDocument(documentId: string, env: Env, corsHeaders: any): Promise<Response> {
+  if (isReservedDocumentId(documentId)) {
+    return errorResponse({ status: 404, code: 'not_found', message: `Document ${documentId} not found` }, corsHeaders);
   }
-  
-  const { documentId } = data;
 
   try {
     // Use deleteDocumentVectors to properly handle deletion and update count
@@ -244,23 +1170,128 @@ async function handleDeleteDocument(request: Request, env: Env, corsHeaders: any
     });
   } catch (error) {
     console.error('Delete document error:', error);
-    return new Response(JSON.stringify({ error: 'Failed to delete document' }), {
-      status: 500,
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to delete document' }, corsHeaders);
+  }
+}
+
+async function handleUpdateRetention(data: UpdateRetentionRequest, env: Env, corsHeaders: any): Promise<Response> {
+  const { documentId, pinned, ttlDays } = data;
+
+  try {
+    const result = await updateDocumentRetention(env, documentId, { pinned, ttlDays });
+    if (!result.success) {
+      return errorResponse({ status: 404, code: 'not_found', message: result.error! }, corsHeaders);
+    }
+
+    const { vectorIds, ...document } = result.document!;
+    return new Response(JSON.stringify({ id: documentId, ...document, expiry: result.expiry }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } catch (error) {
+    console.error('Update retention error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to update retention' }, corsHeaders);
+  }
+}
+
+// Eviction deletes other documents, so only admin keys may ask for it per request; a workspace's
+// overflowPolicy of evict is set by an admin and applies to every key
+function canEvict(principal: Principal | null): boolean {
+  return !principal || hasScope(principal, 'admin');
+}
+
+function evictForbidden(corsHeaders: any): Response {
+  return errorResponse({ status: 403, code: 'forbidden', message: 'Only admin keys can request overflow: evict' }, corsHeaders);
+}
+
+// Optional pinned ("true"/"false") and ttlDays form fields on uploads
+function uploadRetention(form: UploadForm): RetentionSettings | undefined {
+  const { pinned, ttlDays } = form;
+  if (pinned === undefined && ttlDays === undefined) {
+    return undefined;
+  }
+
+  return {
+    ...(pinned !== undefined ? { pinned: pinned === 'true' } : {}),
+    ...(ttlDays !== undefined ? { ttlDays: parseInt(ttlDays, 10) } : {}),
+  };
+}
+
+async function handleDocumentDigest(
+  documentId: string,
+  kind: DigestKind,
+  url: URL,
+  env: Env,
+  corsHeaders: any
+): Promise<Response> {
+  const refresh = url.searchParams.get('refresh') === 'true';
+  const wordsParam = url.searchParams.get('words');
+  const maxWords = wordsParam === null ? undefined : parseInt(wordsParam, 10);
+
+  if (maxWords !== undefined && (!Number.isInteger(maxWords) || maxWords < 1 || maxWords > MAX_SUMMARY_WORDS)) {
+    return errorResponse({ status: 400, code: 'invalid_parameter', message: `words must be an integer between 1 and ${MAX_SUMMARY_WORDS}` }, corsHeaders);
+  }
+
+  try {
+    const result = kind === 'summary'
+      ? await summarizeDocument(env, documentId, { maxWords, refresh })
+      : await outlineDocument(env, documentId, { refresh });
+
+    if (!result.ok) {
+      return errorResponse({ status: result.status, code: errorCodeForStatus(result.status), message: result.error }, corsHeaders);
+    }
+
+    const { text, ...digest } = result.digest;
+    return new Response(JSON.stringify({
+      documentId,
+      documentName: result.documentName,
+      [kind]: text,
+      ...digest,
+      cached: result.cached,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error(`Document ${kind} error:`, error);
+    return errorResponse({ status: 500, code: 'internal_error', message: `Failed to generate ${kind}` }, corsHeaders);
+  }
+}
+
+async function handleCollectionOutline(url: URL, env: Env, corsHeaders: any): Promise<Response> {
+  // ?ids=a,b,c; all documents in the workspace when omitted
+  const idsParam = url.searchParams.get('ids');
+  const documentIds = idsParam ? idsParam.split(',').map(id => id.trim()).filter(id => id.length > 0) : undefined;
+
+  try {
+    const result = await outlineDocuments(env, documentIds, { refresh: url.searchParams.get('refresh') === 'true' });
+
+    if (!result.ok) {
+      return errorResponse({ status: result.status, code: errorCodeForStatus(result.status), message: result.error }, corsHeaders);
+    }
+
+    const { text, ...digest } = result.digest;
+    return new Response(JSON.stringify({
+      ...(documentIds ? { documentIds } : {}),
+      outline: text,
+      ...digest,
+      cached: result.cached,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Collection outline error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to generate outline' }, corsHeaders);
   }
 }
 
 async function handleMetricsQuota(env: Env, corsHeaders: any): Promise<Response> {
   try {
-    const count = await getVectorCount(env);
-    const limit = 100; // MAX_VECTORS from vectorize.ts
-    const percentUsed = (count / limit) * 100;
-    
+    const status = await getVectorUsageStatus(env);
+
     const metrics = {
-      count,
-      limit,
-      percentUsed: Math.round(percentUsed * 100) / 100, // Round to 2 decimal places
+      workspaceId: env.WORKSPACE?.id,
+      count: status.currentCount,
+      limit: status.maxCount,
+      percentUsed: status.percentageUsed,
       timestamp: new Date().toISOString()
     };
     
@@ -273,9 +1304,157 @@ async function handleMetricsQuota(env: Env, corsHeaders: any): Promise<Response>
     });
   } catch (error) {
     console.error('Metrics quota error:', error);
-    return new Response(JSON.stringify({ error: 'Failed to get vector quota metrics' }), {
-      status: 500,
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to get vector quota metrics' }, corsHeaders);
+  }
+}
+
+async function handleStatus(env: Env, corsHeaders: any): Promise<Response> {
+  try {
+    const aiGate = await getAIGateStatus(env);
+    return new Response(JSON.stringify({ status: 'ok', aiGate, timestamp: new Date().toISOString() }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Status error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to get AI gate status' }, corsHeaders);
+  }
+}
+
+async function handleListWorkspaces(env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
+  try {
+    // Keys restricted to some workspaces only see those
+    const workspaces = (await listWorkspaces(env))
+      .filter(workspace => !principal || canAccessWorkspace(principal, workspace.id));
+    return new Response(JSON.stringify({ workspaces }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
+  } catch (error) {
+    console.error('List workspaces error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to list workspaces' }, corsHeaders);
   }
-}
\ No newline at end of file
+}
+
+async function handleCreateWorkspace(data: CreateWorkspaceRequest, env: Env, corsHeaders: any): Promise<Response> {
+  try {
+    const result = await createWorkspace(env, {
+      id: data.id,
+      name: data.name || data.id,
+      ...(data.vectorLimit !== undefined ? { vectorLimit: data.vectorLimit } : {}),
+      ...(data.overflowPolicy ? { overflowPolicy: data.overflowPolicy } : {}),
+    });
+    if (!result.success) {
+      const status = result.status || 409;
+      return errorResponse({ status, code: errorCodeForStatus(status), message: result.error! }, corsHeaders);
+    }
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Create workspace error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to create workspace' }, corsHeaders);
+  }
+}
+
+async function handleDeleteWorkspace(data: DeleteWorkspaceRequest, env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
+  if (principal && !canAccessWorkspace(principal, data.workspaceId)) {
+    return errorResponse({ status: 403, code: 'forbidden', message: `API key cannot access workspace: ${data.workspaceId}` }, corsHeaders);
+  }
+
+  try {
+    const result = await deleteWorkspace(env, data.workspaceId);
+    if (!result.success) {
+      const status = result.status ?? 400;
+      return errorResponse({ status, code: errorCodeForStatus(status), message: result.error! }, corsHeaders);
+    }
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Delete workspace error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to delete workspace' }, corsHeaders);
+  }
+}
+
+async function handleCleanup(env: Env, dryRun: boolean, corsHeaders: any): Promise<Response> {
+  try {
+    const report = await runCleanup(env, { dryRun });
+    return new Response(JSON.stringify(report), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Cleanup error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: dryRun ? 'Failed to preview cleanup' : 'Failed to run cleanup' }, corsHeaders);
+  }
+}
+
+async function handleReconcileVectors(env: Env, fix: boolean, corsHeaders: any): Promise<Response> {
+  try {
+    const workspaces = await listWorkspaces(env);
+    const results = [];
+    // One workspace at a time; each lists every document record in its scope
+    for (const workspace of workspaces) {
+      results.push(await reconcileVectorCount(withWorkspace(env, workspace), fix));
+    }
+
+    return new Response(JSON.stringify({
+      fixed: fix,
+      totalDrift: results.reduce((sum, result) => sum + result.drift, 0),
+      workspaces: results,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Reconcile vectors error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to reconcile vector counts' }, corsHeaders);
+  }
+}
+
+async function handleListApiKeys(env: Env, corsHeaders: any): Promise<Response> {
+  try {
+    const keys = await listApiKeys(env);
+    return new Response(JSON.stringify({ keys }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to list API keys' }, corsHeaders);
+  }
+}
+
+async function handleIssueApiKey(data: IssueApiKeyRequest, env: Env, principal: Principal | null, corsHeaders: any): Promise<Response> {
+  // A key restricted to some workspaces must not mint one that reaches further
+  if (principal && !canGrantWorkspaces(principal, data.workspaceIds)) {
+    return errorResponse({
+      status: 403,
+      code: 'forbidden',
+      message: `workspaceIds must be a subset of this key's workspaces: ${principal.workspaceIds!.join(', ')}`,
+    }, corsHeaders);
+  }
+
+  try {
+    const result = await issueApiKey(env, data);
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Issue API key error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to issue API key' }, corsHeaders);
+  }
+}
+
+async function handleRevokeApiKey(data: RevokeApiKeyRequest, env: Env, corsHeaders: any): Promise<Response> {
+  try {
+    const result = await revokeApiKey(env, data.keyId);
+    if (!result.success) {
+      return errorResponse({ status: 404, code: 'not_found', message: result.error! }, corsHeaders);
+    }
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    return errorResponse({ status: 500, code: 'internal_error', message: 'Failed to revoke API key' }, corsHeaders);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * KV helpers shared across modules
+ */
+
+// Keys starting with this prefix hold internal bookkeeping rather than document records
+export const INTERNAL_KEY_PREFIX = '__';
+
+export function isInternalKey(name: string): boolean {
+  return name.startsWith(INTERNAL_KEY_PREFIX);
+}
+
+export interface KeyEntry<Metadata = unknown> {
+  name: string;
+  metadata?: Metadata; // Set when the value was written with list metadata
+}
+
+/**
+ * List every key under a prefix, following KV's 1000-key pagination
+ */
+export async function listAllKeys(namespace: KVNamespace, prefix?: string): Promise<string[]> {
+  return (await listAllEntries(namespace, prefix)).map(entry => entry.name);
+}
+
+/**
+ * Like listAllKeys, with the metadata stored alongside each key
+ */
+export async function listAllEntries<Metadata = unknown>(namespace: KVNamespace, prefix?: string): Promise<KeyEntry<Metadata>[]> {
+  const entries: KeyEntry<Metadata>[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await namespace.list<Metadata>({ prefix, cursor });
+    entries.push(...page.keys.map(key => ({ name: key.name, metadata: key.metadata })));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return entries;
+}
@@ -0,0 +1,87 @@
+/**
+ * Client for the LexicalIndex Durable Object (one instance per workspace)
+ *
+ * Ingestion and deletion keep the index in step with the chunk store. Returns null when the
+ * LEXICAL_INDEX binding is missing so keyword search can fall back to scanning the chunk store.
+ * A new index is seeded on its first request with every document in the workspace's chunk store.
+ */
+
+import type { Env, QueryFilter } from './types';
+import { listAllDocumentChunks } from './chunk-store';
+import type { DocumentChunks } from './chunk-store';
+import { currentWorkspaceId } from './workspaces';
+
+export interface IndexedChunk {
+  id: string;
+  terms: Record<string, number>;
+  length: number;
+}
+
+// A document as the index keeps it: the fields filters test and its chunks' term frequencies
+export interface IndexedDocument extends Omit<DocumentChunks, 'chunks'> {
+  chunks: IndexedChunk[];
+}
+
+export interface KeywordMatch {
+  id: string; // Chunk (vector) ID
+  documentId: string;
+  score: number;
+}
+
+async function indexRequest<T>(env: Env, workspaceId: string, path: string, body: unknown): Promise<T | null> {
+  if (!env.LEXICAL_INDEX) {
+    return null;
+  }
+
+  const index = env.LEXICAL_INDEX.get(env.LEXICAL_INDEX.idFromName(workspaceId));
+  const send = (requestPath: string, requestBody: unknown) => index.fetch(`https://lexical-index${requestPath}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(requestBody),
+  });
+
+  let response = await send(path, body);
+  if (response.status === 409) {
+    const documents = await listAllDocumentChunks(env);
+    await send('/seed', { documents: documents.map(indexedDocument) });
+    response = await send(path, body);
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(error?.error || `Lexical index request failed with status ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+function indexedDocument(record: DocumentChunks): IndexedDocument {
+  return {
+    ...record,
+    chunks: record.chunks.map(({ id, terms, length }) => ({ id, terms, length })),
+  };
+}
+
+export async function indexDocumentChunks(env: Env, record: DocumentChunks): Promise<void> {
+  await indexRequest(env, currentWorkspaceId(env), '/documents', { document: indexedDocument(record) });
+}
+
+export async function removeIndexedDocument(env: Env, documentId: string): Promise<void> {
+  await indexRequest(env, currentWorkspaceId(env), '/remove', { documentId });
+}
+
+/**
+ * The best chunks for the query terms, or null without the binding
+ */
+export async function searchIndex(
+  env: Env,
+  terms: string[],
+  limit: number,
+  filter?: QueryFilter
+): Promise<KeywordMatch[] | null> {
+  const result = await indexRequest<{ matches: KeywordMatch[] }>(env, currentWorkspaceId(env), '/search', { terms, limit, filter });
+  return result ? result.matches : null;
+}
+
+export async function clearLexicalIndex(env: Env, workspaceId: string): Promise<void> {
+  await indexRequest(env, workspaceId, '/clear', {});
+}
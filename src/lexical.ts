@@ -0,0 +1,256 @@
+/**
+ * Keyword retrieval (BM25) over the chunk store and rank fusion with vector results
+ *
+ * Queries read the postings of their terms from the workspace's LexicalIndex Durable Object and
+ * then only the chunk records of the documents that matched. Without the binding every chunk
+ * record is scanned instead.
+ */
+
+import type { Env, QueryResult, HybridWeights, QueryFilter } from './types';
+import { listAllDocumentChunks, getDocumentChunks } from './chunk-store';
+import type { DocumentChunks, StoredChunk } from './chunk-store';
+import { hasFilter, matchesFilter } from './filters';
+import { searchIndex } from './lexical-index';
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Reciprocal rank fusion constant from Cormack et al.; dampens the influence of top ranks
+const RRF_K = 60;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'he', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'will', 'with', 'what', 'which',
+  'who', 'how', 'this', 'these', 'those', 'do', 'does', 'did', 'about',
+]);
+
+/**
+ * Split text into lowercase search terms
+ * Identifiers joined by - _ . or / (e.g. "POL-2024-17") are indexed whole as well as in parts
+ */
+export function tokenizeTerms(text: string): string[] {
+  const terms: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const match of lower.matchAll(/[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu)) {
+    const compound = match[0];
+    const parts = compound.split(/[-_./]/);
+
+    if (parts.length > 1) {
+      terms.push(compound);
+    }
+    for (const part of parts) {
+      if (!STOPWORDS.has(part) && (part.length > 1 || /\d/.test(part))) {
+        terms.push(part);
+      }
+    }
+  }
+
+  return terms;
+}
+
+export function termFrequencies(text: string): { terms: Record<string, number>; length: number } {
+  const terms: Record<string, number> = {};
+  const tokens = tokenizeTerms(text);
+  for (const token of tokens) {
+    terms[token] = (terms[token] || 0) + 1;
+  }
+  return { terms, length: tokens.length };
+}
+
+/**
+ * BM25 contribution of one query term to a chunk's score
+ * `documentFrequency` is the number of chunks containing the term, out of `chunkCount`.
+ */
+export function bm25Score(
+  frequency: number,
+  documentFrequency: number,
+  chunkCount: number,
+  length: number,
+  averageLength: number
+): number {
+  const idf = Math.log(1 + (chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  const norm = BM25_K1 * (1 - BM25_B + BM25_B * (length / (averageLength || 1)));
+  return idf * (frequency * (BM25_K1 + 1)) / (frequency + norm);
+}
+
+/**
+ * Rank stored chunks against the query with BM25
+ */
+export async function keywordSearch(query: string, limit: number, env: Env, filter?: QueryFilter): Promise<QueryResult[]> {
+  const queryTerms = [...new Set(tokenizeTerms(query))];
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const matches = await searchIndex(env, queryTerms, limit, filter);
+  if (!matches) {
+    return await scanChunks(queryTerms, limit, env, filter);
+  }
+
+  const documentIds = [...new Set(matches.map(match => match.documentId))];
+  const documents = new Map(
+    (await Promise.all(documentIds.map(documentId => getDocumentChunks(env, documentId))))
+      .filter((document): document is DocumentChunks => document !== null)
+      .map(document => [document.documentId, document])
+  );
+
+  return matches.flatMap(({ id, documentId, score }) => {
+    const document = documents.get(documentId);
+    const chunk = document?.chunks.find(candidate => candidate.id === id);
+    // The document changed between the index lookup and reading its chunks
+    if (!document || !chunk) {
+      return [];
+    }
+    return [{
+      id,
+      score,
+      keywordScore: score,
+      retrievers: ['keyword'] as QueryResult['retrievers'],
+      metadata: chunkMetadata(document, chunk),
+    }];
+  });
+}
+
+// Score every chunk in the chunk store, for deployments without the LEXICAL_INDEX binding
+async function scanChunks(queryTerms: string[], limit: number, env: Env, filter?: QueryFilter): Promise<QueryResult[]> {
+  const documents = await listAllDocumentChunks(env);
+  const entries = documents.flatMap(document =>
+    document.chunks.map(chunk => ({ document, chunk }))
+  );
+
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const averageLength = entries.reduce((sum, { chunk }) => sum + chunk.length, 0) / entries.length;
+  const documentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequency.set(term, entries.filter(({ chunk }) => chunk.terms[term]).length);
+  }
+
+  // Corpus statistics cover every chunk; the filter only restricts which chunks are returned
+  const candidates = hasFilter(filter)
+    ? entries.filter(({ document, chunk }) => matchesFilter(chunkMetadata(document, chunk), filter))
+    : entries;
+
+  const scored = candidates
+    .map(entry => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = entry.chunk.terms[term];
+        if (!frequency) {
+          continue;
+        }
+        score += bm25Score(frequency, documentFrequency.get(term) || 0, entries.length, entry.chunk.length, averageLength);
+      }
+      return { ...entry, score };
+    })
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  return scored.map(({ document, chunk, score }) => ({
+    id: chunk.id,
+    score,
+    keywordScore: score,
+    retrievers: ['keyword'],
+    metadata: chunkMetadata(document, chunk),
+  }));
+}
+
+// Mirror the metadata stored with the chunk's vector
+function chunkMetadata(document: DocumentChunks, chunk: StoredChunk): QueryResult['metadata'] {
+  return {
+    ...document.metadata,
+    chunk: chunk.text.slice(0, 200),
+    fullChunk: chunk.text,
+    documentId: document.documentId,
+    documentName: document.documentName,
+    documentType: document.documentType,
+    pageNumber: chunk.pageNumber,
+    chunkIndex: chunk.chunkIndex,
+    textIndex: chunk.textIndex,
+    timestamp: document.timestamp,
+  };
+}
+
+/**
+ * Merge vector and keyword rankings with weighted reciprocal rank fusion
+ * The fused score replaces score; the per-retriever scores are kept alongside.
+ */
+export function fuseResults(
+  vectorResults: QueryResult[],
+  keywordResults: QueryResult[],
+  weights: HybridWeights = {},
+  limit: number
+): QueryResult[] {
+  const vectorWeight = weights.vector ?? 1;
+  const keywordWeight = weights.keyword ?? 1;
+  const fused = new Map<string, QueryResult>();
+
+  vectorResults.forEach((result, rank) => {
+    fused.set(result.id, {
+      ...result,
+      score: vectorWeight / (RRF_K + rank + 1),
+      vectorScore: result.score,
+      retrievers: ['vector'],
+    });
+  });
+
+  keywordResults.forEach((result, rank) => {
+    const contribution = keywordWeight / (RRF_K + rank + 1);
+    const existing = fused.get(result.id);
+
+    if (existing) {
+      existing.score += contribution;
+      existing.keywordScore = result.keywordScore;
+      existing.retrievers = ['vector', 'keyword'];
+    } else {
+      fused.set(result.id, { ...result, score: contribution });
+    }
+  });
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Reciprocal rank fusion of result lists retrieved for several phrasings of the same question
+ * Each chunk keeps the metadata of its first appearance and its best retriever scores.
+ */
+export function mergeResultLists(resultLists: QueryResult[][], limit: number): QueryResult[] {
+  const merged = new Map<string, QueryResult>();
+
+  for (const results of resultLists) {
+    results.forEach((result, rank) => {
+      const contribution = 1 / (RRF_K + rank + 1);
+      // Plain vector results carry their cosine similarity in score, which fusion overwrites
+      const vectorScore = result.vectorScore ?? (result.retrievers?.length === 1 && result.retrievers[0] === 'vector' ? result.score : undefined);
+      const existing = merged.get(result.id);
+
+      if (!existing) {
+        merged.set(result.id, { ...result, score: contribution, vectorScore });
+        return;
+      }
+
+      existing.score += contribution;
+      existing.vectorScore = maxScore(existing.vectorScore, vectorScore);
+      existing.keywordScore = maxScore(existing.keywordScore, result.keywordScore);
+      existing.rerankScore = maxScore(existing.rerankScore, result.rerankScore);
+      existing.retrievers = [...new Set([...(existing.retrievers || []), ...(result.retrievers || [])])];
+    });
+  }
+
+  return [...merged.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function maxScore(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.max(a, b);
+}
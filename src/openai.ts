@@ -0,0 +1,217 @@
+/**
+ * OpenAI-compatible facade over the notebook
+ *
+ * /v1/chat/completions answers the last user message with generateRAGResponse, retrieving over the
+ * workspace's documents like /rag; the sources given to the model and the citations the answer
+ * made are returned in the non-standard `sources` and `citations` fields. /v1/embeddings returns
+ * vectors from the configured embedding model. Both always use the configured models, whatever
+ * `model` the client asks for, and report that model back.
+ */
+
+import type { Env, ChatMessage, SourceCitation, Citation } from './types';
+import type { ChatCompletionRequest, ChatCompletionMessage, EmbeddingsRequest } from './types/requests';
+import { generateRAGResponse, collectRAGStream, readRAGEvents } from './rag';
+import { embedTexts } from './vectorize';
+import { getConfig } from './config';
+import { estimateTokens } from './tokenizer';
+
+export interface ChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: 'assistant'; content: string };
+    finish_reason: 'stop';
+  }>;
+  sources: SourceCitation[];
+  citations: Citation[];
+}
+
+export interface EmbeddingsResponse {
+  object: 'list';
+  data: Array<{ object: 'embedding'; index: number; embedding: number[] | string }>;
+  model: string;
+  usage: { prompt_tokens: number; total_tokens: number };
+}
+
+export type ChatCompletionResult =
+  | { ok: true; completion: ChatCompletion }
+  | { ok: false; error: string };
+
+// The question and prior turns of a chat completion request
+export interface ChatCompletionInput {
+  question: string;
+  history: ChatMessage[];
+}
+
+/**
+ * Split the messages into the question (the last message, which must be from the user) and the
+ * conversation before it; system messages are dropped since the notebook has its own prompt
+ */
+export function chatCompletionInput(messages: ChatCompletionMessage[]): ChatCompletionInput | null {
+  const last = messages[messages.length - 1];
+  if (last.role !== 'user') {
+    return null;
+  }
+
+  const question = messageText(last).trim();
+  if (question.length === 0) {
+    return null;
+  }
+
+  const history: ChatMessage[] = messages
+    .slice(0, -1)
+    .filter(message => message.role !== 'system')
+    .map(message => ({ role: message.role, content: messageText(message) }));
+  return { question, history };
+}
+
+function messageText(message: ChatCompletionMessage): string {
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => part.text).join('\n');
+}
+
+function completionId(): string {
+  return `chatcmpl-${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+// Answer budget, capped so the prompt still fits the model's context window
+function requestedMaxTokens(data: ChatCompletionRequest, env: Env): number {
+  const maxTokens = getConfig(env).chat.maxTokens;
+  return Math.min(data.max_completion_tokens ?? data.max_tokens ?? maxTokens, maxTokens);
+}
+
+export async function createChatCompletion(
+  data: ChatCompletionRequest,
+  input: ChatCompletionInput,
+  env: Env
+): Promise<ChatCompletionResult> {
+  const model = getConfig(env).models.chat;
+  const stream = await generateRAGResponse(input.question, input.history, env, {
+    stream: false,
+    maxTokens: requestedMaxTokens(data, env),
+    temperature: data.temperature,
+    retrieval: data.retrieval,
+    rewrite: data.rewrite,
+    context: data.context,
+  });
+
+  const collected = await collectRAGStream(stream);
+  if (collected.error) {
+    return { ok: false, error: collected.error };
+  }
+
+  return {
+    ok: true,
+    completion: {
+      id: completionId(),
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: collected.answer }, finish_reason: 'stop' }],
+      sources: collected.sources,
+      citations: collected.citations,
+    },
+  };
+}
+
+/**
+ * Re-emit a /rag stream as chat.completion.chunk events: the role first, then one chunk per token,
+ * and a final chunk with the finish reason, sources and citations before "data: [DONE]"
+ */
+export async function streamChatCompletion(
+  data: ChatCompletionRequest,
+  input: ChatCompletionInput,
+  env: Env
+): Promise<ReadableStream> {
+  const encoder = new TextEncoder();
+  const id = completionId();
+  const created = Math.floor(Date.now() / 1000);
+  const model = getConfig(env).models.chat;
+
+  const ragStream = await generateRAGResponse(input.question, input.history, env, {
+    stream: true,
+    maxTokens: requestedMaxTokens(data, env),
+    temperature: data.temperature,
+    retrieval: data.retrieval,
+    rewrite: data.rewrite,
+    context: data.context,
+  });
+
+  const chunk = (delta: Record<string, string>, finishReason: 'stop' | null, extra: Record<string, unknown> = {}) =>
+    encoder.encode(`data: ${JSON.stringify({
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+      ...extra,
+    })}\n\n`);
+
+  return new ReadableStream({
+    async start(controller) {
+      let sources: SourceCitation[] = [];
+      let failed = false;
+
+      controller.enqueue(chunk({ role: 'assistant', content: '' }, null));
+
+      try {
+        await readRAGEvents(ragStream, (name, event) => {
+          if (name === 'sources') {
+            sources = event.sources || [];
+          } else if (name === 'citations') {
+            controller.enqueue(chunk({}, 'stop', { sources, citations: event.citations || [] }));
+          } else if (typeof event.response === 'string' && event.response.length > 0) {
+            controller.enqueue(chunk({ content: event.response }, null));
+          } else if (typeof event.error === 'string') {
+            failed = true;
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              error: { message: event.error, type: 'server_error', param: null, code: 'internal_error' },
+            })}\n\n`));
+          }
+        });
+      } catch (error) {
+        console.error('Chat completion stream error:', error);
+        failed = true;
+      }
+
+      if (!failed) {
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      }
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Embed the input with the configured embedding model; base64 encodes each vector's
+ * little-endian float32 bytes, as the OpenAI API does
+ */
+export async function createEmbeddings(data: EmbeddingsRequest, env: Env): Promise<EmbeddingsResponse> {
+  const inputs = Array.isArray(data.input) ? data.input : [data.input];
+  const embeddings = await embedTexts(inputs, env);
+  const promptTokens = inputs.reduce((sum, text) => sum + estimateTokens(text), 0);
+
+  return {
+    object: 'list',
+    data: embeddings.map((embedding, index) => ({
+      object: 'embedding',
+      index,
+      embedding: data.encoding_format === 'base64' ? toBase64(embedding) : embedding,
+    })),
+    model: getConfig(env).models.embed,
+    usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+  };
+}
+
+function toBase64(embedding: number[]): string {
+  const bytes = new Uint8Array(new Float32Array(embedding).buffer);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
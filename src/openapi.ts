@@ -0,0 +1,126 @@
+/**
+ * OpenAPI 3.1 document generated from the route table
+ *
+ * Request body schemas are the validation schemas themselves (they are JSON Schema), so the
+ * document describes exactly what the Worker accepts. Response schemas are declared on the routes
+ * next to their handlers (see src/types/responses.ts). Paths are listed under the versioned server
+ * URL; the deprecated unversioned aliases are left out.
+ */
+
+import type { RouteDefinition, ResponseContentType } from './router';
+import { API_VERSION_PREFIX } from './router';
+import { ERROR_CODES } from './errors';
+import type { Schema } from './validation';
+
+// info.version of the document; bump on breaking changes to the versioned API
+const SPEC_VERSION = '1.0.0';
+
+const ERROR_SCHEMA: Schema = {
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: {
+      type: 'object',
+      required: ['code', 'message'],
+      properties: {
+        code: { type: 'string', enum: ERROR_CODES },
+        message: { type: 'string' },
+        details: { type: 'object', description: 'Structured extras, e.g. issues: [{path, message}] for validation_failed' },
+      },
+    },
+  },
+};
+
+export function buildOpenAPIDocument(routes: RouteDefinition[], origin: string): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'IPLC AI API',
+      version: SPEC_VERSION,
+      description: 'Document ingestion, retrieval and retrieval-augmented chat over a notebook of documents.',
+    },
+    servers: [{ url: `${origin}${API_VERSION_PREFIX}` }],
+    paths,
+    components: {
+      schemas: { Error: ERROR_SCHEMA },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key; X-API-Key is accepted as well' },
+      },
+      parameters: {
+        workspace: {
+          name: 'X-Workspace-Id',
+          in: 'header',
+          required: false,
+          description: 'Workspace to scope the request to (default workspace when omitted)',
+          schema: { type: 'string' },
+        },
+      },
+    },
+  };
+}
+
+function operation(route: RouteDefinition): Record<string, unknown> {
+  const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+  const queryParams = Object.entries(route.query || {}).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: false,
+    ...(schema.description ? { description: schema.description } : {}),
+    schema,
+  }));
+  const responseTypes = route.responseTypes || ['application/json'];
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.path.split('/')[1]],
+    ...(route.deprecated ? { deprecated: true } : {}),
+    ...(route.scope ? { security: [{ bearerAuth: [] }], 'x-required-scope': route.scope } : { security: [] }),
+    ...(route.allWorkspaces ? { 'x-all-workspaces': true } : {}),
+    ...(route.rateLimit ? { 'x-rate-limit-class': route.rateLimit } : {}),
+    parameters: [
+      ...pathParams,
+      ...queryParams,
+      ...(route.scope ? [{ $ref: '#/components/parameters/workspace' }] : []),
+    ],
+    ...(route.body ? {
+      requestBody: { required: true, content: { 'application/json': { schema: route.body } } },
+    } : {}),
+    ...(route.form ? {
+      requestBody: { required: true, content: { 'multipart/form-data': { schema: route.form } } },
+    } : {}),
+    responses: {
+      [String(route.successStatus || 200)]: {
+        description: 'Success',
+        content: Object.fromEntries(responseTypes.map(type => [type, responseContent(type, route)])),
+      },
+      default: {
+        description: 'Error',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      },
+    },
+  };
+}
+
+function responseContent(type: ResponseContentType, route: RouteDefinition): Record<string, unknown> {
+  switch (type) {
+    case 'application/json':
+      return route.response ? { schema: route.response } : {};
+    case 'text/markdown':
+      return { schema: { type: 'string' } };
+    case 'text/event-stream':
+      return {};
+  }
+}
@@ -0,0 +1,81 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import type { ParsedDocument, ParsedSection } from './index';
+import { decodeEntities } from './html';
+
+const DOCUMENT_PART = 'word/document.xml';
+
+/**
+ * Extract text from a DOCX file, split into pages
+ *
+ * DOCX has no fixed layout, so page numbers come from the page breaks Word recorded
+ * at last render (w:lastRenderedPageBreak), falling back to explicit page breaks.
+ */
+export function parseDocx(bytes: Uint8Array): ParsedDocument {
+  const files = unzipSync(bytes, { filter: file => file.name === DOCUMENT_PART });
+  const part = files[DOCUMENT_PART];
+
+  if (!part) {
+    throw new Error('Invalid DOCX file: word/document.xml not found');
+  }
+
+  const xml = strFromU8(part);
+  const useRenderedBreaks = xml.includes('<w:lastRenderedPageBreak/>');
+  const paragraphs = xml.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) || [];
+
+  const sections: ParsedSection[] = [];
+  let pageNumber = 1;
+  let pageText = '';
+  let heading: string | undefined;
+
+  const flushPage = () => {
+    sections.push({ text: pageText, pageNumber, heading });
+    pageText = '';
+    pageNumber++;
+  };
+
+  for (const paragraph of paragraphs) {
+    const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1];
+    let paragraphText = '';
+
+    const tokens = paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br([^>]*)\/>|<w:lastRenderedPageBreak\/>/g);
+    for (const token of tokens) {
+      if (token[1] !== undefined) {
+        paragraphText += decodeEntities(token[1]);
+      } else if (token[0] === '<w:tab/>') {
+        paragraphText += '\t';
+      } else if (token[0] === '<w:lastRenderedPageBreak/>') {
+        if (useRenderedBreaks) {
+          pageText += paragraphText;
+          paragraphText = '';
+          flushPage();
+        }
+      } else if (token[2]?.includes('w:type="page"')) {
+        if (!useRenderedBreaks) {
+          pageText += paragraphText;
+          paragraphText = '';
+          flushPage();
+        }
+      } else {
+        paragraphText += '\n';
+      }
+    }
+
+    if (style && /^heading/i.test(style) && paragraphText.trim()) {
+      heading = paragraphText.trim();
+    }
+
+    pageText += paragraphText + '\n';
+  }
+
+  if (pageText.trim().length > 0) {
+    sections.push({ text: pageText, pageNumber, heading });
+  } else {
+    pageNumber--;
+  }
+
+  return {
+    documentType: 'docx',
+    pageCount: Math.max(pageNumber, 1),
+    sections,
+  };
+}
@@ -0,0 +1,60 @@
+import type { ParsedDocument, ParsedSection } from './index';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isValidCodePoint(codePoint) ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Unicode scalar values only: fromCodePoint throws above 0x10FFFF and lone surrogates are not text
+function isValidCodePoint(codePoint: number): boolean {
+  return Number.isInteger(codePoint) && codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+}
+
+/**
+ * Convert HTML to plain text, one section per h1-h6 heading
+ */
+export function parseHtml(html: string): ParsedDocument {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|template)\b[\s\S]*?<\/\1>/gi, '');
+
+  const sections: ParsedSection[] = [];
+  const parts = body.split(/(?=<h[1-6]\b)/i);
+
+  for (const part of parts) {
+    const headingMatch = part.match(/^<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]>/i);
+    const heading = headingMatch ? toText(headingMatch[1]).trim() : undefined;
+    sections.push({ text: toText(part), heading: heading || undefined });
+  }
+
+  return { documentType: 'html', sections };
+}
+
+function toText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|section|article|li|tr|h[1-6]|blockquote|pre|table|ul|ol)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
@@ -0,0 +1,108 @@
+/**
+ * Document parsing for raw file uploads
+ * Detects the file type and extracts text per page (PDF, DOCX) or per section (Markdown, HTML)
+ */
+
+import { parsePdf } from './pdf';
+import { parseDocx } from './docx';
+import { parseMarkdown } from './markdown';
+import { parseHtml } from './html';
+
+export type DocumentType = 'pdf' | 'docx' | 'markdown' | 'html' | 'text';
+
+export interface ParsedSection {
+  text: string;
+  pageNumber?: number;
+  heading?: string;
+}
+
+export interface ParsedDocument {
+  documentType: DocumentType;
+  sections: ParsedSection[];
+  pageCount?: number;
+}
+
+const EXTENSION_TYPES: Record<string, DocumentType> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+};
+
+const MIME_TYPES: Record<string, DocumentType> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'text/plain': 'text',
+};
+
+/**
+ * Detect the document type from magic bytes, MIME type and file extension (in that order)
+ */
+export function detectDocumentType(bytes: Uint8Array, fileName: string, mimeType: string = ''): DocumentType | null {
+  // %PDF
+  if (bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46) {
+    return 'pdf';
+  }
+
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  const byMime = MIME_TYPES[mimeType.split(';')[0].trim().toLowerCase()];
+  const byExtension = EXTENSION_TYPES[extension];
+
+  // PK\x03\x04 - zip container, only DOCX is supported
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return byMime === 'docx' || byExtension === 'docx' ? 'docx' : null;
+  }
+
+  // Plain text uploads are often sent as text/plain regardless of their markup
+  if (byExtension && byExtension !== 'pdf' && byExtension !== 'docx') {
+    return byExtension;
+  }
+
+  if (byMime && byMime !== 'pdf' && byMime !== 'docx') {
+    return byMime;
+  }
+
+  return null;
+}
+
+/**
+ * Extract text sections from a raw document
+ * Empty sections are dropped so callers can embed the result directly
+ */
+export async function parseDocument(bytes: Uint8Array, documentType: DocumentType): Promise<ParsedDocument> {
+  let parsed: ParsedDocument;
+
+  switch (documentType) {
+    case 'pdf':
+      parsed = await parsePdf(bytes);
+      break;
+    case 'docx':
+      parsed = parseDocx(bytes);
+      break;
+    case 'markdown':
+      parsed = parseMarkdown(decodeText(bytes));
+      break;
+    case 'html':
+      parsed = parseHtml(decodeText(bytes));
+      break;
+    default:
+      parsed = { documentType: 'text', sections: [{ text: decodeText(bytes) }] };
+  }
+
+  return {
+    ...parsed,
+    sections: parsed.sections
+      .map(section => ({ ...section, text: section.text.trim() }))
+      .filter(section => section.text.length > 0),
+  };
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, '');
+}
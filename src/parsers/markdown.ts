@@ -0,0 +1,29 @@
+import type { ParsedDocument, ParsedSection } from './index';
+
+/**
+ * Split Markdown into one section per heading
+ * Headings inside fenced code blocks are ignored; heading lines are kept in the section text
+ */
+export function parseMarkdown(markdown: string): ParsedDocument {
+  const sections: ParsedSection[] = [];
+  let current: ParsedSection = { text: '' };
+  let inFence = false;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const headingMatch = !inFence ? line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/) : null;
+    if (headingMatch) {
+      sections.push(current);
+      current = { text: '', heading: headingMatch[1] };
+    }
+
+    current.text += line + '\n';
+  }
+
+  sections.push(current);
+
+  return { documentType: 'markdown', sections };
+}
@@ -0,0 +1,19 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+import type { ParsedDocument } from './index';
+
+/**
+ * Extract text from a PDF, one section per page (page numbers are 1-based)
+ */
+export async function parsePdf(bytes: Uint8Array): Promise<ParsedDocument> {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+  return {
+    documentType: 'pdf',
+    pageCount: totalPages,
+    sections: text.map((pageText, index) => ({
+      text: pageText,
+      pageNumber: index + 1,
+    })),
+  };
+}
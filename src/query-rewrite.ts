@@ -0,0 +1,163 @@
+/**
+ * Query rewriting for retrieval
+ *
+ * Follow-up questions ("what about the second one?") are condensed into a standalone question
+ * using the conversation history before they are embedded. Optionally the standalone question is
+ * expanded into alternative phrasings (multi-query) and a hypothetical answer passage (HyDE);
+ * results for every query are merged before the context is assembled.
+ */
+
+import type { Env, ChatMessage, QueryRewriteOptions, RewrittenQuery } from './types';
+import { runAI } from './ai';
+import { getConfig } from './config';
+
+export const MAX_QUERY_EXPANSIONS = 4;
+
+// History messages considered when condensing a follow-up
+const CONDENSE_HISTORY_MESSAGES = 6;
+
+// Longer rewrites are treated as the model answering instead of rewriting
+const MAX_STANDALONE_LENGTH = 500;
+
+export async function rewriteQuery(
+  question: string,
+  history: ChatMessage[],
+  env: Env,
+  options: QueryRewriteOptions = {},
+  conversationSummary?: string
+): Promise<RewrittenQuery> {
+  const { condense = true, multiQuery = 0, hyde = false } = options;
+
+  const standalone = condense && (history.length > 0 || conversationSummary)
+    ? await condenseQuestion(question, history, env, conversationSummary)
+    : question;
+
+  const [expansions, hypothetical] = await Promise.all([
+    multiQuery > 0 ? expandQuery(standalone, Math.min(multiQuery, MAX_QUERY_EXPANSIONS), env) : Promise.resolve([]),
+    hyde ? generateHypotheticalPassage(standalone, env) : Promise.resolve(undefined),
+  ]);
+
+  return {
+    original: question,
+    standalone,
+    expansions,
+    ...(hypothetical ? { hypothetical } : {}),
+  };
+}
+
+/**
+ * Every distinct query to retrieve with, the standalone question first
+ */
+export function retrievalQueries(rewritten: RewrittenQuery): string[] {
+  const queries = [rewritten.standalone, ...rewritten.expansions];
+  if (rewritten.hypothetical) {
+    queries.push(rewritten.hypothetical);
+  }
+  return [...new Set(queries)];
+}
+
+async function condenseQuestion(
+  question: string,
+  history: ChatMessage[],
+  env: Env,
+  conversationSummary?: string
+): Promise<string> {
+  const conversation = [
+    ...(conversationSummary ? [`Summary of earlier turns: ${conversationSummary}`] : []),
+    ...history
+      .filter(message => message.role !== 'system')
+      .slice(-CONDENSE_HISTORY_MESSAGES)
+      .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`),
+  ].join('\n');
+
+  try {
+    const response = await runAI(env, getConfig(env).models.chat, {
+      messages: [
+        {
+          role: 'system',
+          content: 'Rewrite the follow-up question as a standalone question that can be understood without the conversation. Resolve pronouns and references like "it" or "the second one" using the conversation. If the question is already standalone, return it unchanged. Reply with the question only.',
+        },
+        {
+          role: 'user',
+          content: `Conversation:\n${conversation}\n\nFollow-up question: ${question}`,
+        },
+      ],
+      stream: false,
+      max_tokens: 128,
+      temperature: 0,
+    });
+
+    const standalone = cleanLine(response.response || '');
+    return standalone.length > 0 && standalone.length <= MAX_STANDALONE_LENGTH ? standalone : question;
+  } catch (error) {
+    console.error('Query condensation error:', error);
+    return question;
+  }
+}
+
+async function expandQuery(query: string, count: number, env: Env): Promise<string[]> {
+  try {
+    const response = await runAI(env, getConfig(env).models.chat, {
+      messages: [
+        {
+          role: 'system',
+          content: `Write ${count} alternative search queries for the question below, using different wording and synonyms. Put each query on its own line with no numbering or commentary.`,
+        },
+        {
+          role: 'user',
+          content: query,
+        },
+      ],
+      stream: false,
+      max_tokens: 64 * count,
+      temperature: 0.7,
+    });
+
+    const lines = (response.response || '')
+      .split('\n')
+      .map(cleanLine)
+      .filter((line: string) => line.length > 0 && line.toLowerCase() !== query.toLowerCase());
+
+    return [...new Set<string>(lines)].slice(0, count);
+  } catch (error) {
+    console.error('Query expansion error:', error);
+    return [];
+  }
+}
+
+// HyDE: an answer-shaped passage often lands closer to the relevant chunks than the question does
+async function generateHypotheticalPassage(query: string, env: Env): Promise<string | undefined> {
+  try {
+    const response = await runAI(env, getConfig(env).models.chat, {
+      messages: [
+        {
+          role: 'system',
+          content: 'Write a short passage (at most 100 words) that could appear in a document answering the question. Do not mention that it is hypothetical.',
+        },
+        {
+          role: 'user',
+          content: query,
+        },
+      ],
+      stream: false,
+      max_tokens: 160,
+      temperature: 0.3,
+    });
+
+    const passage = (response.response || '').trim();
+    return passage.length > 0 ? passage : undefined;
+  } catch (error) {
+    console.error('HyDE generation error:', error);
+    return undefined;
+  }
+}
+
+// Strip list markers, labels and wrapping quotes the model sometimes adds
+function cleanLine(line: string): string {
+  return line
+    .trim()
+    .replace(/^(?:[-*•]|\d+[.)])\s*/, '')
+    .replace(/^(?:standalone question|question|query)\s*:\s*/i, '')
+    .replace(/^["'“](.*)["'”]$/, '$1')
+    .trim();
+}
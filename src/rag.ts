@@ -1,11 +1,27 @@
-import type { Env, ChatMessage, RAGOptions } from './types';
-import { getDocumentContext } from './vectorize';
+import type { Env, ChatMessage, RAGOptions, SourceCitation, Citation, RewrittenQuery } from './types';
+import { getContextResultsForQueries } from './vectorize';
+import { rewriteQuery, retrievalQueries } from './query-rewrite';
+import { assembleContext } from './context-builder';
+import { runAI } from './ai';
+import { toSourceCitations, formatNumberedContext, extractCitations } from './citations';
+import { getConfig } from './config';
+import { recordQuery, recordCitedDocuments } from './analytics';
 
-// Free tier model for chat
-const CHAT_MODEL = '@cf/meta/llama-3.1-8b-instruct';
+const SYSTEM_PROMPT = `You are IPLC Notebook Assistant, an AI that helps users understand and analyze their documents. 
+        
+Your responses should:
+- Be grounded in the provided context from user documents
+- Include citations when referencing specific information
+- Be clear, concise, and helpful
+- Acknowledge when information is not available in the provided context
 
-// Maximum vectors for free tier (same as in vectorize.ts)
-const MAX_VECTORS = 100;
+Each context passage is numbered, e.g. [1]. When citing sources, put the passage number in square brackets right after the statement it supports, e.g. "The policy was updated in 2023 [2]." Cite several passages as [1, 3]. Only cite numbers that appear in the context.`;
+
+function questionMessage(numberedContext: string, question: string): string {
+  return numberedContext.length > 0
+    ? `Context from your documents:\n\n${numberedContext}\n\n---\n\nQuestion: ${question}`
+    : `Question: ${question}\n\n(No relevant documents found in your notebook)`;
+}
 
 export async function generateRAGResponse(
   question: string,
@@ -13,55 +29,71 @@ export async function generateRAGResponse(
   env: Env,
   options: RAGOptions = {}
 ): Promise<ReadableStream> {
+  const config = getConfig(env);
   const {
-    maxTokens = 2048,
-    temperature = 0.7,
+    maxTokens = config.chat.maxTokens,
+    temperature = config.chat.temperature,
     stream = true,
-    model = CHAT_MODEL,
+    model = config.models.chat,
+    retrieval,
+    rewrite,
+    context,
+    conversationSummary,
   } = options;
+  const systemPrompt = conversationSummary
+    ? `${SYSTEM_PROMPT}\n\nSummary of the earlier conversation (those turns are not repeated below):\n${conversationSummary}`
+    : SYSTEM_PROMPT;
 
   try {
-    // Get relevant document context (ensure topK doesn't exceed MAX_VECTORS)
-    const safeTopK = Math.min(4, MAX_VECTORS);
-    const context = await getDocumentContext(question, safeTopK, env);
-    
+    // Retrieve with the standalone form of follow-up questions, not the raw question; the context
+    // builder keeps as many of the retrieved chunks as fit the token budget
+    const rewritten = await rewriteQuery(question, history, env, rewrite, conversationSummary);
+    const results = await getContextResultsForQueries(retrievalQueries(rewritten), config.chat.topK, env, retrieval);
+
+    // Fit history and passages into the model's context window alongside the answer; the
+    // passage-free user message costs about the same as the wrapper around the passages
+    const assembled = await assembleContext(systemPrompt, questionMessage('', question), history, results, maxTokens, env, context);
+    const sources = toSourceCitations(assembled.results);
+    const numberedContext = formatNumberedContext(assembled.results);
+
     // Prepare messages with context
     const messages: ChatMessage[] = [
-      {
-        role: 'system',
-        content: `You are IPLC Notebook Assistant, an AI that helps users understand and analyze their documents. 
-        
-Your responses should:
-- Be grounded in the provided context from user documents
-- Include citations when referencing specific information
-- Be clear, concise, and helpful
-- Acknowledge when information is not available in the provided context
-
-When citing sources, use the format [Source: document name, page X] where applicable.`,
-      },
-      ...history.slice(-6), // Keep last 6 messages for context
-      {
-        role: 'user',
-        content: context.length > 0 
-          ? `Context from your documents:\n\n${context}\n\n---\n\nQuestion: ${question}`
-          : `Question: ${question}\n\n(No relevant documents found in your notebook)`,
-      },
+      { role: 'system', content: systemPrompt },
+      ...assembled.history,
+      { role: 'user', content: questionMessage(numberedContext, question) },
     ];
 
-    // Generate response
-    const response = await env.AI.run(model, {
-      messages,
-      stream,
-      max_tokens: maxTokens,
-      temperature,
-    });
+    // Generate response, logging the retrieval for the quality analytics meanwhile
+    const rerankScores = results.map(result => result.rerankScore).filter((score): score is number => score !== undefined);
+    const [response] = await Promise.all([
+      runAI(env, model, {
+        messages,
+        stream,
+        max_tokens: maxTokens,
+        temperature,
+      }),
+      recordQuery(env, {
+        query: question,
+        standalone: rewritten.standalone,
+        retrieved: results.length,
+        passages: assembled.results.length,
+        topScore: results.length > 0 ? Math.max(...results.map(result => result.score)) : null,
+        ...(rerankScores.length > 0 ? { topRerankScore: Math.max(...rerankScores) } : {}),
+      }),
+    ]);
 
     if (!stream) {
       // Non-streaming response
       const encoder = new TextEncoder();
+      const answer = response.response || '';
+      const citations = extractCitations(answer, sources);
+      await recordCitedDocuments(env, citations.citations);
       return new ReadableStream({
         start(controller) {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: response.response })}\n\n`));
+          controller.enqueue(encoder.encode(sseEvent('query', rewritten)));
+          controller.enqueue(encoder.encode(sseEvent('sources', { sources })));
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: answer })}\n\n`));
+          controller.enqueue(encoder.encode(sseEvent('citations', citations)));
           controller.enqueue(encoder.encode('data: [DONE]\n\n'));
           controller.close();
         },
@@ -69,7 +101,7 @@ When citing sources, use the format [Source: document name, page X] where applic
     }
 
     // Streaming response
-    return createSSEStream(response);
+    return createSSEStream(response, rewritten, sources, env);
   } catch (error) {
     console.error('RAG generation error:', error);
     const encoder = new TextEncoder();
@@ -83,28 +115,67 @@ When citing sources, use the format [Source: document name, page X] where applic
   }
 }
 
-function createSSEStream(aiStream: ReadableStream): ReadableStream {
+// Named SSE event, sent alongside the unnamed {response} token events
+function sseEvent(name: string, data: unknown): string {
+  return `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Re-emit the Workers AI token stream as {response} events, framed by the query and sources
+ * events before the first token and the citations event once the answer is complete
+ */
+function createSSEStream(aiStream: ReadableStream, rewritten: RewrittenQuery, sources: SourceCitation[], env: Env): ReadableStream {
   const encoder = new TextEncoder();
   const decoder = new TextDecoder();
   
   return new ReadableStream({
     async start(controller) {
       const reader = aiStream.getReader();
+      let buffer = '';
+      let answer = '';
+
+      controller.enqueue(encoder.encode(sseEvent('query', rewritten)));
+      controller.enqueue(encoder.encode(sseEvent('sources', { sources })));
+
+      // Workers AI streams SSE itself: "data: {"response":"..."}" lines ending with "data: [DONE]"
+      const forwardLine = (line: string) => {
+        if (!line.startsWith('data: ')) {
+          return;
+        }
+        const data = line.slice(6).trim();
+        if (data === '[DONE]') {
+          return;
+        }
+        try {
+          const token = JSON.parse(data).response;
+          if (typeof token === 'string' && token.length > 0) {
+            answer += token;
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: token })}\n\n`));
+          }
+        } catch (e) {
+          // Ignore malformed upstream events
+        }
+      };
       
       try {
         while (true) {
           const { done, value } = await reader.read();
           
           if (done) {
+            forwardLine(buffer);
+            const citations = extractCitations(answer, sources);
+            controller.enqueue(encoder.encode(sseEvent('citations', citations)));
             controller.enqueue(encoder.encode('data: [DONE]\n\n'));
             controller.close();
+            await recordCitedDocuments(env, citations.citations);
             break;
           }
           
-          // Parse the chunk and format as SSE
-          const chunk = decoder.decode(value);
-          const sseMessage = `data: ${JSON.stringify({ response: chunk })}\n\n`;
-          controller.enqueue(encoder.encode(sseMessage));
+          // Upstream events can be split across chunks; keep the trailing partial line
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          lines.forEach(forwardLine);
         }
       } catch (error) {
         console.error('Stream error:', error);
@@ -118,6 +189,94 @@ function createSSEStream(aiStream: ReadableStream): ReadableStream {
   });
 }
 
+export interface CollectedRAGResponse {
+  answer: string;
+  query?: RewrittenQuery;
+  sources: SourceCitation[];
+  citations: Citation[];
+  invalidMarkers: number[];
+  error?: string;
+}
+
+/**
+ * Read a stream from generateRAGResponse, calling onEvent with each event's name ('message' for
+ * the unnamed token and error events) and parsed data as it arrives
+ */
+export async function readRAGEvents(
+  stream: ReadableStream,
+  onEvent: (name: string, data: any) => void | Promise<void>
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const readEvent = async (event: string) => {
+    let name = 'message';
+    let data = '';
+    for (const line of event.split('\n')) {
+      if (line.startsWith('event: ')) {
+        name = line.slice(7).trim();
+      } else if (line.startsWith('data: ')) {
+        data += line.slice(6);
+      }
+    }
+    if (data === '' || data === '[DONE]') {
+      return;
+    }
+    let parsed: any;
+    try {
+      parsed = JSON.parse(data);
+    } catch (e) {
+      // Ignore malformed events
+      return;
+    }
+    await onEvent(name, parsed);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        await readEvent(buffer);
+        return;
+      }
+      // Events end with a blank line and can be split across chunks
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      for (const event of events) {
+        await readEvent(event);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read a stream from generateRAGResponse to the end and gather its events
+ */
+export async function collectRAGStream(stream: ReadableStream): Promise<CollectedRAGResponse> {
+  const collected: CollectedRAGResponse = { answer: '', sources: [], citations: [], invalidMarkers: [] };
+
+  await readRAGEvents(stream, (name, data) => {
+    if (name === 'query') {
+      collected.query = data;
+    } else if (name === 'sources') {
+      collected.sources = data.sources || [];
+    } else if (name === 'citations') {
+      collected.citations = data.citations || [];
+      collected.invalidMarkers = data.invalidMarkers || [];
+    } else if (typeof data.response === 'string') {
+      collected.answer += data.response;
+    } else if (typeof data.error === 'string') {
+      collected.error = data.error;
+    }
+  });
+
+  return collected;
+}
+
 export async function generateOutline(
   documents: string[],
   env: Env
@@ -134,12 +293,12 @@ export async function generateOutline(
       },
     ];
 
-    const response = await env.AI.run(CHAT_MODEL, {
+    const response = await runAI(env, getConfig(env).models.chat, {
       messages,
       stream: false,
-      max_tokens: 2048,
+      max_tokens: getConfig(env).chat.maxTokens,
       temperature: 0.5,
-    });
+    }, { priority: 'bulk' });
 
     return response.response || 'Failed to generate outline';
   } catch (error) {
@@ -165,12 +324,12 @@ export async function generateSummary(
       },
     ];
 
-    const response = await env.AI.run(CHAT_MODEL, {
+    const response = await runAI(env, getConfig(env).models.chat, {
       messages,
       stream: false,
       max_tokens: Math.floor(maxLength * 1.5), // Allow some buffer
       temperature: 0.3,
-    });
+    }, { priority: 'bulk' });
 
     return response.response || 'Failed to generate summary';
   } catch (error) {
@@ -0,0 +1,79 @@
+/**
+ * Per-client rate limiting backed by the RateLimiter Durable Object
+ *
+ * Each client and class has its own object, which counts requests in a sliding window (see
+ * src/durable-objects/rate-limiter.ts) and is the only writer of its counts.
+ */
+
+import type { Env, RateLimitClass, RateLimitRule } from './types';
+import { getConfig } from './config';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Until the current window ends
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Rule for a class: per-key override, then RATE_LIMIT_<CLASS> ("<requests>/<seconds>"), then default
+ * (see src/config.ts)
+ */
+export function getRateLimitRule(
+  env: Env,
+  rateLimitClass: RateLimitClass,
+  overrides?: Partial<Record<RateLimitClass, RateLimitRule>>
+): RateLimitRule {
+  return overrides?.[rateLimitClass] ?? getConfig(env).rateLimits[rateLimitClass];
+}
+
+/**
+ * Count a request against the client's budget for the class
+ * The RateLimiter Durable Object for the client and class does the counting; if it cannot be
+ * reached the request is let through rather than failing the API. A limit of 0 blocks the class,
+ * and a rule the limiter rejects denies the request rather than leaving the client unlimited.
+ */
+export async function checkRateLimit(
+  env: Env,
+  rateLimitClass: RateLimitClass,
+  clientId: string,
+  rule: RateLimitRule
+): Promise<RateLimitResult> {
+  const windowMs = rule.windowSeconds * 1000;
+  const resetSeconds = Math.ceil((windowMs - (Date.now() % windowMs)) / 1000);
+  const denied: RateLimitResult = { allowed: false, limit: rule.limit, remaining: 0, resetSeconds, retryAfterSeconds: resetSeconds };
+
+  if (rule.limit === 0) {
+    return denied;
+  }
+
+  try {
+    const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`${rateLimitClass}:${clientId}`));
+    const response = await limiter.fetch('https://rate-limiter/check', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rule }),
+    });
+    if (response.status >= 400 && response.status < 500) {
+      console.error(`Rate limiter rejected the ${rateLimitClass} rule with status ${response.status}:`, rule);
+      return denied;
+    }
+    if (!response.ok) {
+      throw new Error(`Rate limiter request failed with status ${response.status}`);
+    }
+    return await response.json() as RateLimitResult;
+  } catch (error) {
+    console.error('Rate limiter error:', error);
+    return { allowed: true, limit: rule.limit, remaining: rule.limit, resetSeconds };
+  }
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetSeconds),
+    ...(result.retryAfterSeconds !== undefined ? { 'Retry-After': String(result.retryAfterSeconds) } : {}),
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Cross-encoder reranking of retrieved chunks
+ */
+
+import type { Env, QueryResult, QueryOptions } from './types';
+import { runAI } from './ai';
+import { resultText } from './citations';
+import { getConfig } from './config';
+
+// Candidates fetched per requested result when the request does not say
+const DEFAULT_RERANK_OVERFETCH = 3;
+
+/**
+ * Work out how many candidates to retrieve for reranking, or null when reranking is off
+ */
+export function resolveRerank(
+  rerank: QueryOptions['rerank'],
+  limit: number,
+  maxCandidates: number
+): { candidates: number } | null {
+  if (!rerank || (typeof rerank === 'object' && rerank.enabled === false)) {
+    return null;
+  }
+  const requested = typeof rerank === 'object' ? rerank.candidates : undefined;
+  return {
+    candidates: Math.min(Math.max(requested ?? limit * DEFAULT_RERANK_OVERFETCH, limit), maxCandidates),
+  };
+}
+
+/**
+ * Score each candidate against the query with the reranker and return the best `limit`
+ * The retrieval score is kept in score (and vectorScore/keywordScore); the reranker's goes in
+ * rerankScore. If the reranker fails, the original order is returned.
+ */
+export async function rerankResults(
+  query: string,
+  candidates: QueryResult[],
+  limit: number,
+  env: Env
+): Promise<QueryResult[]> {
+  if (candidates.length === 0) {
+    return candidates;
+  }
+
+  try {
+    const response = await runAI(env, getConfig(env).models.rerank, {
+      query,
+      contexts: candidates.map(candidate => ({ text: resultText(candidate) })),
+      top_k: candidates.length,
+    });
+
+    const ranked = (response?.response || []) as Array<{ id: number; score: number }>;
+    if (ranked.length === 0) {
+      throw new Error('Empty rerank response');
+    }
+
+    return ranked
+      .filter(({ id }) => candidates[id] !== undefined)
+      .map(({ id, score }) => ({ ...candidates[id], rerankScore: score }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Rerank error, keeping retrieval order:', error);
+    return candidates.slice(0, limit);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Retention policies for documents and sessions
+ *
+ * A document expires a number of days after its last change (updatedAt, or uploadedAt for older
+ * records). The number of days comes from, in order: the document's own ttlDays, the entry for its
+ * type in RETENTION_DAYS_BY_TYPE, then RETENTION_DAYS. Pinned documents never expire and 0 days
+ * means keep forever. Idle sessions expire after SESSION_RETENTION_DAYS without activity.
+ */
+
+import type { Env, DocumentRecord, RetentionSettings } from './types';
+import { workspaceKey, isReservedDocumentId } from './workspaces';
+import { putDocumentRecord } from './documents';
+import { getConfig } from './config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionPolicy {
+  defaultDays: number;
+  daysByType: Record<string, number>;
+  sessionDays: number;
+}
+
+export type RetentionRule = 'pinned' | 'document' | 'type' | 'default';
+
+export interface DocumentExpiry {
+  rule: RetentionRule;
+  days: number | null; // null when pinned
+  expiresAt: string | null; // null when kept forever
+}
+
+export function getRetentionPolicy(env: Env): RetentionPolicy {
+  return getConfig(env).retention;
+}
+
+export function documentExpiry(record: DocumentRecord, policy: RetentionPolicy): DocumentExpiry {
+  if (record.pinned) {
+    return { rule: 'pinned', days: null, expiresAt: null };
+  }
+
+  const [rule, days]: [RetentionRule, number] =
+    record.ttlDays !== undefined ? ['document', record.ttlDays]
+    : policy.daysByType[record.type] !== undefined ? ['type', policy.daysByType[record.type]]
+    : ['default', policy.defaultDays];
+
+  const lastChange = Date.parse(record.updatedAt || record.uploadedAt);
+  if (days === 0 || Number.isNaN(lastChange)) {
+    return { rule, days, expiresAt: null };
+  }
+  return { rule, days, expiresAt: new Date(lastChange + days * DAY_MS).toISOString() };
+}
+
+export function sessionExpiresAt(lastActiveAt: string, policy: RetentionPolicy): string | null {
+  const lastActive = Date.parse(lastActiveAt);
+  if (policy.sessionDays === 0 || Number.isNaN(lastActive)) {
+    return null;
+  }
+  return new Date(lastActive + policy.sessionDays * DAY_MS).toISOString();
+}
+
+/**
+ * Merge retention settings from a request into a document record's fields
+ * Unspecified settings keep their previous value; ttlDays: null removes the override.
+ */
+export function applyRetention(
+  previous: Pick<DocumentRecord, 'pinned' | 'ttlDays'> | null,
+  settings: RetentionSettings = {}
+): Pick<DocumentRecord, 'pinned' | 'ttlDays'> {
+  const pinned = settings.pinned ?? previous?.pinned;
+  const ttlDays = settings.ttlDays === null ? undefined : settings.ttlDays ?? previous?.ttlDays;
+  return {
+    ...(pinned ? { pinned } : {}),
+    ...(ttlDays !== undefined ? { ttlDays } : {}),
+  };
+}
+
+/**
+ * Pin/unpin a document or change its TTL without re-ingesting it
+ */
+export async function updateDocumentRetention(
+  env: Env,
+  documentId: string,
+  settings: RetentionSettings
+): Promise<{ success: boolean; document?: DocumentRecord; expiry?: DocumentExpiry; error?: string }> {
+  const record = isReservedDocumentId(documentId)
+    ? null
+    : await env.DOC_METADATA.get(workspaceKey(env, documentId), 'json') as DocumentRecord | null;
+  if (!record) {
+    return { success: false, error: `Document ${documentId} not found` };
+  }
+
+  const { pinned, ttlDays, ...rest } = record;
+  const updated: DocumentRecord = { ...rest, ...applyRetention(record, settings) };
+  await putDocumentRecord(env, documentId, updated);
+
+  return { success: true, document: updated, expiry: documentExpiry(updated, getRetentionPolicy(env)) };
+}
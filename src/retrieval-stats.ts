@@ -0,0 +1,46 @@
+/**
+ * Last-retrieved time per document (scoped to the current workspace)
+ *
+ * Stored under its own key rather than in the document record so queries never race with
+ * ingestion. Writes are throttled per isolate: a document is re-stamped at most once per interval,
+ * which is plenty for least-recently-used eviction.
+ */
+
+import type { Env, QueryResult } from './types';
+import { workspaceKey } from './workspaces';
+
+const RETRIEVED_KEY_PREFIX = '__retrieved__:';
+const WRITE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Key -> time this isolate last wrote it
+const lastWrites = new Map<string, number>();
+
+export async function recordRetrieval(env: Env, results: QueryResult[]): Promise<void> {
+  const now = Date.now();
+  const documentIds = new Set(
+    results.map(result => result.metadata.documentId).filter((id): id is string => typeof id === 'string')
+  );
+
+  const writes = [...documentIds]
+    .map(documentId => workspaceKey(env, RETRIEVED_KEY_PREFIX + documentId))
+    .filter(key => now - (lastWrites.get(key) ?? 0) >= WRITE_INTERVAL_MS)
+    .map(async key => {
+      lastWrites.set(key, now);
+      await env.DOC_METADATA.put(key, new Date(now).toISOString());
+    });
+
+  try {
+    await Promise.all(writes);
+  } catch (error) {
+    // Statistics must never fail a query
+    console.error('Record retrieval error:', error);
+  }
+}
+
+export async function getLastRetrieved(env: Env, documentId: string): Promise<string | null> {
+  return await env.DOC_METADATA.get(workspaceKey(env, RETRIEVED_KEY_PREFIX + documentId), 'text');
+}
+
+export async function deleteRetrievalStats(env: Env, documentId: string): Promise<void> {
+  await env.DOC_METADATA.delete(workspaceKey(env, RETRIEVED_KEY_PREFIX + documentId));
+}
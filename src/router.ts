@@ -0,0 +1,156 @@
+/**
+ * Request routing
+ *
+ * Routes are declared once with their method, path (":name" segments become params), the scope
+ * and rate limit budget they need, their request body schema and documentation. The same
+ * declarations drive matching, body validation and the OpenAPI document, so the published spec
+ * cannot drift from what the Worker accepts.
+ *
+ * Every route is served under API_VERSION_PREFIX; the unversioned paths remain as aliases for
+ * clients written before versioning.
+ */
+
+import type { Env, ApiKeyScope, RateLimitClass } from './types';
+import type { Principal } from './auth';
+import type { Schema, ObjectSchema } from './validation';
+import type { ApiError } from './errors';
+import { errorResponse, readJsonBody, readFormBody } from './errors';
+
+export const API_VERSION_PREFIX = '/v1';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface RequestContext {
+  request: Request;
+  url: URL;
+  env: Env; // Scoped to the request's workspace once the workspace middleware has run
+  params: Record<string, string>;
+  principal: Principal | null;
+  corsHeaders: Record<string, string>;
+  body?: unknown; // Validated JSON body or form fields, for routes that declare one
+}
+
+export type RouteHandler = (context: RequestContext) => Promise<Response> | Response;
+
+// Runs around the handler; call next() to continue, or return a response to stop the request
+export type Middleware = (context: RequestContext, next: () => Promise<Response>) => Promise<Response>;
+
+export type ResponseContentType = 'application/json' | 'text/event-stream' | 'text/markdown';
+
+export interface RouteDefinition {
+  method: HttpMethod;
+  path: string; // e.g. "/documents/:id/summary"
+  operationId: string;
+  summary: string;
+  scope: ApiKeyScope | null; // null for public routes
+  allWorkspaces?: boolean; // Acts across every workspace, so keys restricted to some are refused
+  rateLimit?: RateLimitClass;
+  body?: ObjectSchema; // JSON request body, validated before the handler runs
+  form?: ObjectSchema; // multipart/form-data fields, validated like body
+  query?: Record<string, Schema>; // Documented query parameters; handlers parse them
+  response?: Schema; // JSON success body, documentation only
+  responseTypes?: ResponseContentType[]; // Default ['application/json']
+  successStatus?: 200 | 201; // Default 200
+  deprecated?: boolean;
+  middleware?: Middleware[];
+  formatError?: (error: ApiError, corsHeaders: Record<string, string>) => Response; // For body validation errors
+  handler: RouteHandler;
+}
+
+export type RouteMatch =
+  | { kind: 'found'; route: RouteDefinition; params: Record<string, string> }
+  | { kind: 'method_not_allowed'; allowed: HttpMethod[] }
+  | { kind: 'not_found' };
+
+interface CompiledRoute {
+  route: RouteDefinition;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+/**
+ * Matcher for a route table; routes are tried in order, so static paths go before the
+ * parameterised ones they overlap with
+ */
+export function createRouter(routes: RouteDefinition[]): (method: string, pathname: string) => RouteMatch {
+  const compiled: CompiledRoute[] = routes.map(route => {
+    const paramNames: string[] = [];
+    const source = route.path
+      .split('/')
+      .map(segment => {
+        if (segment.startsWith(':')) {
+          paramNames.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+    return { route, pattern: new RegExp(`^${source}$`), paramNames };
+  });
+
+  return (method, pathname) => {
+    const path = pathname === API_VERSION_PREFIX || pathname.startsWith(`${API_VERSION_PREFIX}/`)
+      ? pathname.slice(API_VERSION_PREFIX.length) || '/'
+      : pathname;
+    const allowed: HttpMethod[] = [];
+
+    for (const { route, pattern, paramNames } of compiled) {
+      const match = path.match(pattern);
+      if (!match) {
+        continue;
+      }
+      if (route.method !== method) {
+        allowed.push(route.method);
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      try {
+        paramNames.forEach((name, index) => {
+          params[name] = decodeURIComponent(match[index + 1]);
+        });
+      } catch (error) {
+        // Malformed percent-encoding cannot name anything
+        return { kind: 'not_found' };
+      }
+      return { kind: 'found', route, params };
+    }
+
+    return allowed.length > 0 ? { kind: 'method_not_allowed', allowed } : { kind: 'not_found' };
+  };
+}
+
+/**
+ * Run the middleware chain in order, ending with the handler
+ */
+export function runMiddleware(context: RequestContext, middleware: Middleware[], handler: RouteHandler): Promise<Response> {
+  const dispatch = async (index: number): Promise<Response> => {
+    if (index === middleware.length) {
+      return await handler(context);
+    }
+    return await middleware[index](context, () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
+
+/**
+ * Middleware and handler for a matched route: its own middleware, then body validation
+ */
+export function routePipeline(route: RouteDefinition): Middleware[] {
+  return [...(route.middleware || []), ...(route.body || route.form ? [validateBody(route)] : [])];
+}
+
+function validateBody(route: RouteDefinition): Middleware {
+  return async (context, next) => {
+    const body = route.body
+      ? await readJsonBody(context.request, route.body, context.env)
+      : await readFormBody(context.request, route.form!);
+    if (!body.ok) {
+      return route.formatError
+        ? route.formatError(body.error, context.corsHeaders)
+        : errorResponse(body.error, context.corsHeaders);
+    }
+    context.body = body.value;
+    return await next();
+  };
+}
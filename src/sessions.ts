@@ -0,0 +1,221 @@
+/**
+ * Session registry in the CHAT_HISTORY KV namespace
+ *
+ * SessionDO instances cannot be enumerated, so every session used through /rag is recorded here
+ * under the same workspace-scoped name as its Durable Object, with its owner, title and last
+ * activity time. Session listings and retention use the registry; the conversation itself lives in
+ * the Durable Object.
+ */
+
+import type { Env, ChatMessage, SessionInfo, SessionMessage } from './types';
+import type { Principal } from './auth';
+import { currentWorkspaceId, workspaceKey, listWorkspaceKeys } from './workspaces';
+import { listAllKeys } from './kv';
+import { runAI } from './ai';
+import { getConfig } from './config';
+import { truncateToTokens } from './tokenizer';
+
+const MAX_TITLE_LENGTH = 80;
+
+// Room for the running summary, and for the instructions around the turns being folded into it
+const SUMMARY_MAX_TOKENS = 400;
+const SUMMARY_PROMPT_TOKENS = 200;
+
+export interface SessionRecord {
+  sessionId: string;
+  workspaceId: string;
+  ownerKeyId?: string; // API key that started the session; sessions from before owners were tracked have none
+  title?: string;
+  createdAt: string;
+  lastActiveAt: string;
+}
+
+// Durable Object name and registry key for a session in the current workspace
+export function sessionKey(env: Env, sessionId: string): string {
+  return workspaceKey(env, sessionId);
+}
+
+export function getSessionStub(env: Env, sessionId: string): DurableObjectStub {
+  return env.SESSION_DO.get(env.SESSION_DO.idFromName(sessionKey(env, sessionId)));
+}
+
+export async function getSessionRecord(env: Env, sessionId: string): Promise<SessionRecord | null> {
+  return await env.CHAT_HISTORY.get(sessionKey(env, sessionId), 'json') as SessionRecord | null;
+}
+
+export async function touchSession(env: Env, sessionId: string, ownerKeyId?: string): Promise<SessionRecord> {
+  const key = sessionKey(env, sessionId);
+  const existing = await env.CHAT_HISTORY.get(key, 'json') as SessionRecord | null;
+  const now = new Date().toISOString();
+
+  const record: SessionRecord = {
+    ...existing,
+    sessionId,
+    workspaceId: currentWorkspaceId(env),
+    createdAt: existing?.createdAt || now,
+    lastActiveAt: now,
+  };
+  // The first key to use a session owns it
+  if (!existing && ownerKeyId) {
+    record.ownerKeyId = ownerKeyId;
+  }
+  await env.CHAT_HISTORY.put(key, JSON.stringify(record));
+  return record;
+}
+
+/**
+ * Admin keys see every session in the workspace, other keys their own and unowned ones
+ */
+export function canAccessSession(principal: Principal | null, record: Pick<SessionRecord, 'ownerKeyId'>): boolean {
+  return !principal || !record.ownerKeyId || principal.scopes.includes('admin') || principal.keyId === record.ownerKeyId;
+}
+
+/**
+ * Sessions of the current workspace visible to the principal, most recently active first
+ */
+export async function listSessions(env: Env, principal: Principal | null): Promise<SessionRecord[]> {
+  const sessionIds = await listWorkspaceKeys(env, '', env.CHAT_HISTORY);
+  const records = await Promise.all(sessionIds.map(sessionId => getSessionRecord(env, sessionId)));
+
+  return records
+    .filter((record): record is SessionRecord => record !== null && canAccessSession(principal, record))
+    .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt));
+}
+
+/**
+ * Every registered session across all workspaces, with its registry key
+ */
+export async function listAllSessionRecords(env: Env): Promise<Array<{ key: string; session: SessionRecord }>> {
+  const keys = await listAllKeys(env.CHAT_HISTORY);
+  const records = await Promise.all(
+    keys.map(async key => ({ key, session: await env.CHAT_HISTORY.get(key, 'json') as SessionRecord | null }))
+  );
+  return records.filter((entry): entry is { key: string; session: SessionRecord } => entry.session !== null);
+}
+
+/**
+ * Record a generated title in the registry so listings do not have to ask each Durable Object
+ */
+export async function setSessionTitle(env: Env, key: string, title: string): Promise<void> {
+  const record = await env.CHAT_HISTORY.get(key, 'json') as SessionRecord | null;
+  if (record) {
+    await env.CHAT_HISTORY.put(key, JSON.stringify({ ...record, title }));
+  }
+}
+
+/**
+ * Clear a session's stored history and remove it from the registry
+ */
+export async function deleteSessionByKey(env: Env, key: string): Promise<void> {
+  const session = env.SESSION_DO.get(env.SESSION_DO.idFromName(key));
+  await session.fetch('https://session/clear');
+  await env.CHAT_HISTORY.delete(key);
+}
+
+/**
+ * Short title for a conversation from its first exchange, falling back to the question itself
+ */
+export async function generateSessionTitle(question: string, answer: string, env: Env): Promise<string> {
+  const fallback = truncateTitle(question);
+
+  try {
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'Write a title of at most 6 words for a conversation that starts with this exchange. Reply with the title only, without quotes or punctuation at the end.',
+      },
+      {
+        role: 'user',
+        content: `Question: ${question}\n\nAnswer: ${answer.slice(0, 1000)}`,
+      },
+    ];
+
+    const response = await runAI(env, getConfig(env).models.chat, {
+      messages,
+      stream: false,
+      max_tokens: 24,
+      temperature: 0.2,
+    }, { priority: 'bulk' });
+
+    const title = String(response?.response || '').split('\n')[0].replace(/^["'\s]+|["'.\s]+$/g, '');
+    return title.length > 0 ? truncateTitle(title) : fallback;
+  } catch (error) {
+    console.error('Session title error:', error);
+    return fallback;
+  }
+}
+
+function truncateTitle(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : singleLine;
+}
+
+/**
+ * Fold older turns into the running conversation summary, or null if the model fails
+ */
+export async function summarizeConversation(
+  previousSummary: string | undefined,
+  messages: ChatMessage[],
+  env: Env
+): Promise<string | null> {
+  const config = getConfig(env);
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : message.role === 'assistant' ? 'Assistant' : 'System'}: ${message.content}`)
+    .join('\n\n');
+  const budget = config.chat.contextTokens - SUMMARY_MAX_TOKENS * 2 - SUMMARY_PROMPT_TOKENS;
+
+  try {
+    const response = await runAI(env, config.models.chat, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You keep a running summary of a conversation between a user and an assistant about the user\'s documents. Update the summary with the new turns. Keep the questions asked, facts and figures given, documents discussed, decisions and open questions; drop pleasantries. Write at most 250 words. Reply with the summary only.',
+        },
+        {
+          role: 'user',
+          content: `Current summary:\n${previousSummary || '(none yet)'}\n\nNew turns:\n${truncateToTokens(transcript, budget)}`,
+        },
+      ],
+      stream: false,
+      max_tokens: SUMMARY_MAX_TOKENS,
+      temperature: 0.2,
+    }, { priority: 'bulk' });
+
+    const summary = String(response?.response || '').trim();
+    return summary.length > 0 ? summary : null;
+  } catch (error) {
+    console.error('Conversation summary error:', error);
+    return null;
+  }
+}
+
+/**
+ * Markdown transcript with the sources each assistant turn cited
+ */
+export function formatTranscriptMarkdown(session: SessionInfo, messages: SessionMessage[]): string {
+  const lines = [
+    `# ${session.title || `Session ${session.sessionId}`}`,
+    '',
+    `- Session: ${session.sessionId}`,
+    `- Workspace: ${session.workspaceId}`,
+    `- Started: ${session.createdAt}`,
+    `- Last activity: ${session.updatedAt}`,
+  ];
+
+  for (const message of messages) {
+    lines.push('', `## ${message.role === 'user' ? 'User' : message.role === 'assistant' ? 'Assistant' : 'System'}`, '', message.content);
+
+    if (message.citations && message.citations.length > 0) {
+      lines.push('', '**Sources**', '');
+      for (const { marker, source } of message.citations) {
+        const origin = [
+          source.documentName || source.documentId || 'Unknown document',
+          source.pageNumber !== undefined ? `page ${source.pageNumber}` : null,
+        ].filter(Boolean).join(', ');
+        lines.push(`- [${marker}] ${origin}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,267 @@
+/**
+ * Document summaries and outlines, map-reduced over the chunk store
+ *
+ * A document is reassembled from its stored chunks and split into sections that fit comfortably
+ * in the chat model's context. Each section is summarised or outlined on its own (map), then the
+ * partial results are combined (reduce), in several rounds if they do not fit in one prompt.
+ * Results are cached per document version (see digest-cache.ts).
+ */
+
+import type { Env, DocumentRecord } from './types';
+import { generateSummary, generateOutline } from './rag';
+import { getDocumentChunks } from './chunk-store';
+import type { DocumentChunks } from './chunk-store';
+import { getCachedDigest, putCachedDigest } from './digest-cache';
+import type { CachedDigest, DigestKind } from './digest-cache';
+import { joinOverlapping } from './context-builder';
+import { estimateTokens, truncateToTokens } from './tokenizer';
+import { workspaceKey, listWorkspaceKeys, isReservedDocumentId } from './workspaces';
+import { isInternalKey } from './kv';
+import { sha256Hex } from './auth';
+
+// Input sizes per map/reduce call, well under the 8B model's window to leave room for the output
+const MAP_SECTION_TOKENS = 3000;
+const REDUCE_INPUT_TOKENS = 3000;
+const MAX_REDUCE_ROUNDS = 3;
+
+// Map and reduce calls in flight per digest; enough to keep the AI gate busy without flooding its
+// queue, which rejects requests beyond 100 waiting
+const MAX_CONCURRENT_STEPS = 4;
+
+const SECTION_SUMMARY_WORDS = 150;
+export const DEFAULT_SUMMARY_WORDS = 200;
+export const MAX_SUMMARY_WORDS = 1000;
+
+export const MAX_OUTLINE_DOCUMENTS = 20;
+
+// Multi-document outlines are keyed by the versions they cover, so stale entries just expire
+const COLLECTION_OUTLINE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export type DigestResult =
+  | { ok: true; digest: CachedDigest; cached: boolean; documentName?: string }
+  | { ok: false; status: 400 | 404; error: string };
+
+export async function summarizeDocument(
+  env: Env,
+  documentId: string,
+  options: { maxWords?: number; refresh?: boolean } = {}
+): Promise<DigestResult> {
+  const maxWords = options.maxWords ?? DEFAULT_SUMMARY_WORDS;
+
+  return await documentDigest(env, 'summary', documentId, options.refresh, (cached) => cached.maxWords === maxWords, async (sections) => ({
+    text: await mapReduce(
+      sections,
+      (text, final) => generateSummary(text, env, final ? maxWords : SECTION_SUMMARY_WORDS)
+    ),
+    maxWords,
+  }));
+}
+
+export async function outlineDocument(
+  env: Env,
+  documentId: string,
+  options: { refresh?: boolean } = {}
+): Promise<DigestResult> {
+  return await documentDigest(env, 'outline', documentId, options.refresh, () => true, async (sections) => ({
+    text: await mapReduce(sections, (text) => generateOutline([text], env)),
+  }));
+}
+
+/**
+ * Outline several documents (all documents in the workspace when none are given) by
+ * outlining each one and merging the per-document outlines
+ */
+export async function outlineDocuments(
+  env: Env,
+  documentIds: string[] | undefined,
+  options: { refresh?: boolean } = {}
+): Promise<DigestResult> {
+  const ids = documentIds ?? (await listWorkspaceKeys(env)).filter(key => !isInternalKey(key));
+
+  if (ids.length === 0) {
+    return { ok: false, status: 404, error: 'No documents to outline' };
+  }
+  if (ids.length > MAX_OUTLINE_DOCUMENTS) {
+    return { ok: false, status: 400, error: `At most ${MAX_OUTLINE_DOCUMENTS} documents can be outlined together` };
+  }
+  if (ids.length === 1) {
+    return await outlineDocument(env, ids[0], options);
+  }
+
+  // Outline documents one at a time so a large collection does not flood the AI queue
+  const outlines: Array<{ documentId: string; name?: string; digest: CachedDigest }> = [];
+  for (const documentId of ids) {
+    const result = await outlineDocument(env, documentId, options);
+    if (!result.ok) {
+      return result;
+    }
+    outlines.push({ documentId, name: result.documentName, digest: result.digest });
+  }
+
+  const version = outlines
+    .map(({ documentId, digest }) => `${documentId}@${digest.version}`)
+    .sort()
+    .join(',');
+  const cacheKey = `collection:${await sha256Hex(version)}`;
+
+  const cached = options.refresh ? null : await getCachedDigest(env, 'outline', cacheKey);
+  if (cached && cached.version === version) {
+    return { ok: true, digest: cached, cached: true };
+  }
+
+  const labelled = outlines.map(({ documentId, name, digest }) => `# ${name || documentId}\n\n${digest.text}`);
+  const digest: CachedDigest = {
+    version,
+    text: await reduceHierarchically(labelled, (text) => generateOutline([text], env)),
+    sections: outlines.length,
+    generatedAt: new Date().toISOString(),
+  };
+
+  await putCachedDigest(env, 'outline', cacheKey, digest, COLLECTION_OUTLINE_TTL_SECONDS);
+  return { ok: true, digest, cached: false };
+}
+
+async function documentDigest(
+  env: Env,
+  kind: DigestKind,
+  documentId: string,
+  refresh: boolean | undefined,
+  isReusable: (cached: CachedDigest) => boolean,
+  generate: (sections: string[]) => Promise<Pick<CachedDigest, 'text' | 'maxWords'>>
+): Promise<DigestResult> {
+  const record = isReservedDocumentId(documentId)
+    ? null
+    : await env.DOC_METADATA.get(workspaceKey(env, documentId), 'json') as DocumentRecord | null;
+  if (!record) {
+    return { ok: false, status: 404, error: `Document ${documentId} not found` };
+  }
+
+  const version = documentVersion(record);
+  const cached = refresh ? null : await getCachedDigest(env, kind, documentId);
+  if (cached && cached.version === version && isReusable(cached)) {
+    return { ok: true, digest: cached, cached: true, documentName: record.name };
+  }
+
+  const chunks = await getDocumentChunks(env, documentId);
+  if (!chunks || chunks.chunks.length === 0) {
+    return { ok: false, status: 404, error: `No stored text for document ${documentId}; re-ingest it to enable ${kind} generation` };
+  }
+
+  const sections = documentSections(chunks);
+  const digest: CachedDigest = {
+    version,
+    ...(await generate(sections)),
+    sections: sections.length,
+    generatedAt: new Date().toISOString(),
+  };
+
+  await putCachedDigest(env, kind, documentId, digest);
+  return { ok: true, digest, cached: false, documentName: record.name };
+}
+
+// Documents stored before versioning fall back to their upload time
+function documentVersion(record: DocumentRecord): string {
+  return String(record.version ?? record.uploadedAt ?? '');
+}
+
+/**
+ * Rebuild the document text in order, removing chunk overlap, and cut it into map sections
+ */
+function documentSections(record: DocumentChunks): string[] {
+  const chunks = [...record.chunks].sort((a, b) => a.textIndex - b.textIndex || a.chunkIndex - b.chunkIndex);
+  const sections: string[] = [];
+  let current = '';
+  let currentTextIndex = -1;
+
+  for (const chunk of chunks) {
+    const joined = current.length === 0
+      ? chunk.text
+      : chunk.textIndex === currentTextIndex ? joinOverlapping(current, chunk.text) : `${current}\n\n${chunk.text}`;
+
+    if (current.length > 0 && estimateTokens(joined) > MAP_SECTION_TOKENS) {
+      sections.push(current);
+      current = chunk.text;
+    } else {
+      current = joined;
+    }
+    currentTextIndex = chunk.textIndex;
+  }
+
+  if (current.length > 0) {
+    sections.push(current);
+  }
+  return sections;
+}
+
+/**
+ * Run `step` over each section, then reduce the partial results with it;
+ * `final` is true for the call that produces the end result
+ */
+async function mapReduce(
+  sections: string[],
+  step: (text: string, final: boolean) => Promise<string>
+): Promise<string> {
+  if (sections.length === 1) {
+    return await step(sections[0], true);
+  }
+  const partials = await mapConcurrently(sections, section => step(section, false));
+  return await reduceHierarchically(partials, step);
+}
+
+async function reduceHierarchically(
+  partials: string[],
+  step: (text: string, final: boolean) => Promise<string>
+): Promise<string> {
+  let level = partials;
+
+  for (let round = 0; round < MAX_REDUCE_ROUNDS; round++) {
+    const groups = groupByTokens(level, REDUCE_INPUT_TOKENS);
+    if (groups.length === 1) {
+      return await step(groups[0].join('\n\n---\n\n'), true);
+    }
+    level = await mapConcurrently(groups, group => step(group.join('\n\n---\n\n'), false));
+  }
+
+  // Still too long after several rounds: give each partial an equal share of the input
+  const share = Math.floor(REDUCE_INPUT_TOKENS / level.length);
+  return await step(level.map(text => truncateToTokens(text, share)).join('\n\n---\n\n'), true);
+}
+
+// Like Promise.all over items.map(fn), with at most MAX_CONCURRENT_STEPS calls running at once
+async function mapConcurrently<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_STEPS, items.length) }, worker));
+  return results;
+}
+
+// Group consecutive texts so each group fits in the budget (a text larger than it gets its own group)
+function groupByTokens(texts: string[], budget: number): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let used = 0;
+
+  for (const text of texts) {
+    const tokens = estimateTokens(text);
+    if (current.length > 0 && used + tokens > budget) {
+      groups.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(text);
+    used += tokens;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+}
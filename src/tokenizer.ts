@@ -0,0 +1,42 @@
+/**
+ * Approximate token counting
+ *
+ * Workers AI does not expose the model tokenizers, so this estimates WordPiece/BPE counts:
+ * short words are one token, longer words split roughly every 6 characters and each
+ * punctuation mark is its own token. It errs on the high side so limits are not exceeded.
+ */
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+export function estimateTokens(text: string): number {
+  let count = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const length = match[0].length;
+    count += length <= 6 ? 1 : Math.ceil(length / 6);
+  }
+  return count;
+}
+
+/**
+ * Truncate text so that it fits within maxTokens, cutting at a word boundary
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const words = text.split(/(\s+)/);
+  let result = '';
+  let tokens = 0;
+
+  for (const word of words) {
+    const wordTokens = estimateTokens(word);
+    if (tokens + wordTokens > maxTokens) {
+      break;
+    }
+    result += word;
+    tokens += wordTokens;
+  }
+
+  return result.trimEnd();
+}
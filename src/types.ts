@@ -3,6 +3,79 @@ export interface Env {
   DOC_INDEX: VectorizeIndex;
   DOC_METADATA: KVNamespace;
   SESSION_DO: DurableObjectNamespace;
+  AI_GATE?: DurableObjectNamespace;
+  VECTOR_COUNTER?: DurableObjectNamespace;
+  QUERY_LOG?: DurableObjectNamespace;
+  LEXICAL_INDEX?: DurableObjectNamespace; // LexicalIndex, one instance per workspace
+  RATE_LIMITER: DurableObjectNamespace; // RateLimiter, one instance per client and class
+  CHAT_HISTORY: KVNamespace; // Session registry (see src/sessions.ts)
+  ADMIN_API_KEY?: string; // Secret: bootstrap key with every scope
+  // Limits and models, all optional with defaults (see src/config.ts)
+  MAX_VECTORS?: string;
+  INDEX_MAX_VECTORS?: string;
+  QUERY_MAX_TOP_K?: string;
+  EMBED_MODEL?: string;
+  CHAT_MODEL?: string;
+  RERANK_MODEL?: string;
+  CHAT_CONTEXT_TOKENS?: string;
+  CHAT_MAX_TOKENS?: string;
+  CHAT_TEMPERATURE?: string;
+  RAG_TOP_K?: string;
+  HISTORY_MAX_MESSAGES?: string;
+  SESSION_SUMMARY_TOKENS?: string;
+  SESSION_RECENT_MESSAGES?: string;
+  CHUNK_STRATEGY?: string;
+  CHUNK_MAX_TOKENS?: string;
+  CHUNK_MAX_CHARS?: string;
+  CHUNK_OVERLAP_TOKENS?: string;
+  CHUNK_OVERLAP_CHARS?: string;
+  MAX_UPLOAD_BYTES?: string;
+  MAX_REQUEST_BYTES?: string;
+  AI_MAX_CONCURRENT?: string;
+  RATE_LIMIT_EMBED?: string; // "<requests>/<seconds>"
+  RATE_LIMIT_QUERY?: string;
+  RATE_LIMIT_CHAT?: string;
+  RETENTION_DAYS?: string; // Default document TTL in days, 0 keeps forever
+  RETENTION_DAYS_BY_TYPE?: string; // JSON object of document type to days
+  SESSION_RETENTION_DAYS?: string;
+  // Set per request by withWorkspace, not a binding
+  WORKSPACE?: Workspace;
+  // Set per request from the execution context: keeps work going after the response is sent
+  WAIT_UNTIL?: (promise: Promise<unknown>) => void;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  vectorLimit?: number; // Overrides MAX_VECTORS for this workspace
+  overflowPolicy?: OverflowPolicy; // Default for ingestions that exceed the vector limit
+}
+
+// What to do when an ingestion needs more vectors than the quota allows
+export type OverflowPolicy = 'reject' | 'partial' | 'evict';
+
+// Interactive requests (chat, query embeddings) are served before bulk ones (ingestion, summaries)
+export type AIPriority = 'interactive' | 'bulk';
+
+export type ApiKeyScope = 'read' | 'write' | 'delete' | 'admin';
+
+export type RateLimitClass = 'embed' | 'query' | 'chat';
+
+export interface RateLimitRule {
+  limit: number; // Requests per window
+  windowSeconds: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  workspaceIds?: string[]; // Restricts the key to these workspaces
+  rateLimits?: Partial<Record<RateLimitClass, RateLimitRule>>; // Overrides the RATE_LIMIT_* defaults
+  hash: string; // SHA-256 of the full key
+  createdAt: string;
+  revokedAt?: string;
 }
 
 export interface ChatMessage {
@@ -13,21 +86,165 @@ export interface ChatMessage {
 export interface EmbedResponse {
   success: boolean;
   vectorIds?: string[];
+  version?: number;
+  // Chunks embedded, kept from the previous version, and deleted
+  added?: number;
+  unchanged?: number;
+  removed?: number;
+  skipped?: number; // New chunks left out by a partial ingestion
+  evicted?: Array<{ documentId: string; name: string; vectors: number; lastUsedAt: string }>;
   error?: string;
 }
 
+// Per-document record in DOC_METADATA, keyed by document ID
+export interface DocumentRecord {
+  name: string;
+  type: string;
+  chunksCount: number;
+  chunkStrategy: ChunkStrategy;
+  uploadedAt: string; // First ingestion
+  updatedAt?: string; // Last ingestion that changed the document
+  version?: number; // Starts at 1 and increments on every change; missing on records from before versioning
+  pinned?: boolean; // Exempt from retention cleanup
+  ttlDays?: number; // Overrides the type/default retention
+  vectorIds: string[];
+}
+
+// Catalogue entry for GET /documents; also stored as the KV list metadata of each record
+export type DocumentSummary = Omit<DocumentRecord, 'vectorIds'>;
+
+export type DocumentSortField = 'name' | 'uploadedAt' | 'chunksCount';
+
+export interface RetentionSettings {
+  pinned?: boolean;
+  ttlDays?: number | null; // Days after the last change, 0 keeps forever, null removes the override
+}
+
+export type Retriever = 'vector' | 'keyword';
+
 export interface QueryResult {
   id: string;
-  score: number;
+  score: number; // Cosine similarity, BM25 score or fused rank score depending on the mode
+  vectorScore?: number;
+  keywordScore?: number;
+  rerankScore?: number; // Cross-encoder relevance, set when the request asked for reranking
+  retrievers?: Retriever[]; // Which retrievers returned this chunk
+  contextText?: string; // Text put in the prompt when it differs from the chunk (truncated or widened with neighbors)
+  neighborIds?: string[]; // Adjacent chunks merged into contextText
   metadata: {
     chunk: string;
     documentId?: string;
     documentName?: string;
     pageNumber?: number;
     timestamp?: string;
+    [key: string]: any;
   };
 }
 
+export interface SourceCitation {
+  index: number; // Number used for the chunk in the prompt, e.g. [1]
+  vectorId: string;
+  documentId?: string;
+  documentName?: string;
+  pageNumber?: number;
+  score: number;
+  rerankScore?: number;
+  snippet: string;
+}
+
+export interface Citation {
+  marker: number;
+  occurrences: number; // How many times the answer cites this source
+  source: SourceCitation;
+}
+
+// A stored conversation turn; assistant turns keep the sources they were given and cited
+export interface SessionMessage extends ChatMessage {
+  seq: number; // Position in the session, from 1
+  createdAt: string;
+  sources?: SourceCitation[];
+  citations?: Citation[];
+  feedback?: AnswerFeedback;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface AnswerFeedback {
+  rating: FeedbackRating;
+  comment?: string;
+  wrongCitations?: number[]; // Citation markers the user says do not support the answer
+  createdAt: string;
+}
+
+// Feedback on an assistant turn with what was retrieved for it, kept for analytics
+export interface FeedbackRecord extends AnswerFeedback {
+  sessionId: string;
+  messageSeq: number;
+  keyId?: string;
+  question: string;
+  answer: string;
+  chunkIds: string[]; // Every chunk given to the model for the turn
+  wrongSources: SourceCitation[];
+}
+
+// One /rag retrieval as recorded by the QueryLog Durable Object
+export interface QueryLogEntry {
+  at: string;
+  query: string;
+  standalone: string; // Rewritten question actually used for retrieval
+  retrieved: number; // Chunks retrieved before context packing
+  passages: number; // Passages given to the model; 0 means "no relevant documents found"
+  topScore: number | null; // Best retrieval score (cosine similarity in vector mode)
+  topRerankScore?: number;
+}
+
+export interface DocumentCitationStats {
+  documentId: string;
+  documentName?: string;
+  answers: number; // Answers citing the document at least once
+  lastCitedAt: string;
+}
+
+export interface SessionInfo {
+  sessionId: string;
+  workspaceId: string;
+  title?: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  summary?: string; // Running summary of the turns up to summarizedThrough
+  summarizedThrough?: number; // seq of the last message folded into the summary
+}
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface HybridWeights {
+  vector?: number;
+  keyword?: number;
+}
+
+export type FilterValue = string | number | boolean;
+
+export interface QueryFilter {
+  documentIds?: string[];
+  documentType?: string | string[];
+  from?: string; // ISO 8601, inclusive, compared with the ingestion timestamp
+  to?: string;
+  metadata?: Record<string, FilterValue | FilterValue[]>; // Custom keys from EmbedRequest.metadata
+}
+
+export interface QueryOptions {
+  mode?: RetrievalMode;
+  weights?: HybridWeights; // Rank fusion weights, hybrid mode only
+  filter?: QueryFilter;
+  rerank?: boolean | RerankOptions;
+}
+
+export interface RerankOptions {
+  enabled?: boolean; // Defaults to true when the object is given
+  candidates?: number; // How many retrieved chunks the reranker scores (default 3x the limit)
+}
+
 export interface Document {
   id: string;
   name: string;
@@ -50,10 +267,18 @@ export interface VectorizeMatch {
   metadata?: Record<string, any>;
 }
 
+export interface VectorizeQueryOptions {
+  topK?: number;
+  filter?: Record<string, any>;
+  returnMetadata?: boolean | 'all' | 'indexed' | 'none';
+  returnValues?: boolean;
+}
+
 export interface VectorizeIndex {
   upsert(vectors: VectorizeVector[]): Promise<void>;
-  query(vector: number[], options?: { topK?: number }): Promise<VectorizeMatch[]>;
+  query(vector: number[], options?: VectorizeQueryOptions): Promise<{ count?: number; matches: VectorizeMatch[] }>;
   deleteByIds(ids: string[]): Promise<void>;
+  getByIds(ids: string[]): Promise<VectorizeVector[]>;
 }
 
 export interface EmbedMetadata {
@@ -65,9 +290,50 @@ export interface EmbedMetadata {
   timestamp?: string;
 }
 
+export type ChunkStrategy = 'sentence' | 'sliding-window' | 'markdown' | 'token';
+
+export interface ChunkingOptions {
+  strategy?: ChunkStrategy;
+  maxChunkSize?: number; // Characters, for sentence, sliding-window and markdown
+  maxTokens?: number; // Estimated tokens, for token
+  overlap?: number; // Characters for sliding-window, tokens for token
+}
+
+export interface EmbedOptions {
+  // Page number for each entry in texts (e.g. from a parsed upload), overrides metadata.pageNumber
+  pageNumbers?: Array<number | undefined>;
+  chunking?: ChunkingOptions;
+  retention?: RetentionSettings; // Unset fields keep the values of the previous version
+  overflow?: OverflowPolicy; // Defaults to the workspace's policy, then 'reject'
+}
+
 export interface RAGOptions {
   maxTokens?: number;
   temperature?: number;
   stream?: boolean;
   model?: string;
+  retrieval?: QueryOptions;
+  rewrite?: QueryRewriteOptions;
+  context?: ContextOptions;
+  conversationSummary?: string; // Running summary of turns no longer passed as history
+}
+
+export interface ContextOptions {
+  maxContextTokens?: number; // Model context window to budget against (default and maximum CHAT_CONTEXT_TOKENS)
+  neighbors?: number; // Adjacent chunks to add on each side of a passage when budget allows (default 1)
+  dedupeThreshold?: number; // Word-trigram Jaccard similarity treated as a duplicate, 0-1 (default 0.8)
+}
+
+export interface QueryRewriteOptions {
+  condense?: boolean; // Rewrite follow-ups into a standalone question using the history (default true)
+  multiQuery?: number; // Number of alternative phrasings to retrieve with as well (default 0)
+  hyde?: boolean; // Also retrieve with a hypothetical answer passage (default false)
+}
+
+// The queries actually used for retrieval, reported to the client before the sources
+export interface RewrittenQuery {
+  original: string;
+  standalone: string;
+  expansions: string[];
+  hypothetical?: string;
 }
\ No newline at end of file
@@ -1,4 +1,13 @@
 // Request payload types for API endpoints
+import type { ChunkStrategy, ChunkingOptions, RetentionSettings, OverflowPolicy, QueryOptions, QueryRewriteOptions, ContextOptions, RetrievalMode, HybridWeights, QueryFilter, ApiKeyScope, RateLimitClass, RateLimitRule, FeedbackRating } from '../types';
+import type { Schema, ObjectSchema, StringSchema } from '../validation';
+import { CHUNK_STRATEGIES, EMBED_MAX_TOKENS } from '../chunking';
+import { VECTORIZE_MAX_TOP_K } from '../config';
+import { API_KEY_SCOPES } from '../auth';
+import { MAX_QUERY_EXPANSIONS } from '../query-rewrite';
+import { MAX_NEIGHBORS } from '../context-builder';
+import { WORKSPACE_ID_PATTERN, UNRESERVED_ID_PATTERN } from '../workspaces';
+import { MAX_EMBEDDING_INPUTS } from '../vectorize';
 
 export interface EmbedRequest {
   texts: string[];
@@ -11,6 +20,9 @@ export interface EmbedRequest {
     timestamp?: string;
     [key: string]: any;
   };
+  chunking?: ChunkingOptions;
+  retention?: RetentionSettings;
+  overflow?: OverflowPolicy;
 }
 
 export interface RAGRequest {
@@ -20,51 +32,395 @@ export interface RAGRequest {
     content: string;
   }>;
   sessionId?: string;
+  retrieval?: QueryOptions;
+  rewrite?: QueryRewriteOptions;
+  context?: ContextOptions;
 }
 
 export interface QueryRequest {
   query: string;
   limit?: number;
+  mode?: RetrievalMode;
+  weights?: HybridWeights;
+  filter?: QueryFilter;
+  rerank?: QueryOptions['rerank'];
 }
 
 export interface DeleteDocumentRequest {
   documentId: string;
 }
 
-// Type guards
-export function isEmbedRequest(data: unknown): data is EmbedRequest {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    'texts' in data &&
-    Array.isArray((data as any).texts) &&
-    (data as any).texts.every((text: any) => typeof text === 'string')
-  );
+export interface UpdateRetentionRequest extends RetentionSettings {
+  documentId: string;
+}
+
+export interface CreateWorkspaceRequest {
+  id: string;
+  name?: string;
+  vectorLimit?: number;
+  overflowPolicy?: OverflowPolicy;
+}
+
+export interface DeleteWorkspaceRequest {
+  workspaceId: string;
+}
+
+export interface IssueApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  workspaceIds?: string[];
+  rateLimits?: Partial<Record<RateLimitClass, RateLimitRule>>;
+}
+
+export interface RevokeApiKeyRequest {
+  keyId: string;
+}
+
+export interface FeedbackRequest {
+  sessionId: string;
+  messageSeq: number; // seq of the assistant message, as returned by GET /sessions/:id/messages
+  rating: FeedbackRating;
+  comment?: string;
+  wrongCitations?: number[];
+}
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 2000;
+
+// OpenAI chat message; content may be a string or an array of text parts
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | Array<{ type: 'text'; text: string }>;
+}
+
+// OpenAI-compatible chat completion, plus the /rag options as extension fields
+export interface ChatCompletionRequest {
+  model?: string;
+  messages: ChatCompletionMessage[];
+  stream?: boolean;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  retrieval?: QueryOptions;
+  rewrite?: QueryRewriteOptions;
+  context?: ContextOptions;
 }
 
-export function isRAGRequest(data: unknown): data is RAGRequest {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    'question' in data &&
-    typeof (data as any).question === 'string'
-  );
+// Fields of a POST /documents/upload form
+export interface UploadForm {
+  file: File;
+  documentId?: string;
+  documentName?: string;
+  chunkStrategy?: ChunkStrategy;
+  overflow?: OverflowPolicy;
+  pinned?: 'true' | 'false';
+  ttlDays?: string;
 }
 
-export function isQueryRequest(data: unknown): data is QueryRequest {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    'query' in data &&
-    typeof (data as any).query === 'string'
-  );
+export interface EmbeddingsRequest {
+  input: string | string[];
+  model?: string;
+  encoding_format?: 'float' | 'base64';
 }
 
-export function isDeleteDocumentRequest(data: unknown): data is DeleteDocumentRequest {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    'documentId' in data &&
-    typeof (data as any).documentId === 'string'
-  );
-}
\ No newline at end of file
+export const OVERFLOW_POLICIES: OverflowPolicy[] = ['reject', 'partial', 'evict'];
+
+// Request size bounds; the whole body is also capped by MAX_REQUEST_BYTES
+export const MAX_EMBED_TEXTS = 1000;
+export const MAX_TEXT_LENGTH = 100_000; // Characters per text, question or message
+export const MAX_HISTORY_LENGTH = 100; // Messages; only the most recent HISTORY_MAX_MESSAGES reach the prompt
+export const MAX_QUERY_LIMIT = VECTORIZE_MAX_TOP_K; // Results are never more than one Vectorize query returns
+const MAX_ID_LENGTH = 256;
+const MAX_NAME_LENGTH = 512;
+const MAX_FILTER_VALUES = 100;
+const MAX_METADATA_KEYS = 32;
+
+const RETRIEVAL_MODES: RetrievalMode[] = ['vector', 'keyword', 'hybrid'];
+const RATE_LIMIT_CLASSES: RateLimitClass[] = ['embed', 'query', 'chat'];
+
+const ID: StringSchema = {
+  type: 'string',
+  minLength: 1,
+  maxLength: MAX_ID_LENGTH,
+  pattern: UNRESERVED_ID_PATTERN.source,
+  description: 'Must not start with __ or ws:',
+};
+const NAME: StringSchema = { type: 'string', minLength: 1, maxLength: MAX_NAME_LENGTH };
+const TEXT: StringSchema = { type: 'string', minLength: 1, maxLength: MAX_TEXT_LENGTH };
+const WORKSPACE_ID: StringSchema = { type: 'string', pattern: WORKSPACE_ID_PATTERN.source, description: '1-64 letters, digits, - or _' };
+const FILTER_VALUE: Schema = { anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }] };
+
+const CHUNKING_OPTIONS: ObjectSchema = {
+  type: 'object',
+  properties: {
+    strategy: { type: 'string', enum: CHUNK_STRATEGIES },
+    maxChunkSize: { type: 'integer', minimum: 100, maximum: 20_000, description: 'Characters, for sentence, sliding-window and markdown' },
+    maxTokens: { type: 'integer', minimum: 16, maximum: EMBED_MAX_TOKENS, description: 'Estimated tokens, for token' },
+    overlap: { type: 'integer', minimum: 0, maximum: 10_000, description: 'Characters for sliding-window, tokens for token' },
+  },
+};
+
+const RETENTION_SETTINGS: Record<string, Schema> = {
+  pinned: { type: 'boolean' },
+  ttlDays: {
+    anyOf: [{ type: 'integer', minimum: 0, maximum: 36_500 }, { type: 'null' }],
+    description: 'Days after the last change, 0 keeps forever, null removes the override',
+  },
+};
+
+const QUERY_FILTER: ObjectSchema = {
+  type: 'object',
+  properties: {
+    documentIds: { type: 'array', items: ID, maxItems: MAX_FILTER_VALUES },
+    documentType: { anyOf: [NAME, { type: 'array', items: NAME, maxItems: MAX_FILTER_VALUES }] },
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    metadata: {
+      type: 'object',
+      additionalProperties: { anyOf: [FILTER_VALUE, { type: 'array', items: FILTER_VALUE, maxItems: MAX_FILTER_VALUES }] },
+      maxProperties: MAX_METADATA_KEYS,
+    },
+  },
+};
+
+// Shared by /query (at the top level) and the retrieval options of /rag
+const QUERY_OPTIONS: Record<string, Schema> = {
+  mode: { type: 'string', enum: RETRIEVAL_MODES },
+  weights: {
+    type: 'object',
+    properties: {
+      vector: { type: 'number', minimum: 0 },
+      keyword: { type: 'number', minimum: 0 },
+    },
+  },
+  filter: QUERY_FILTER,
+  rerank: {
+    anyOf: [
+      { type: 'boolean' },
+      {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean' },
+          candidates: { type: 'integer', minimum: 1, maximum: MAX_QUERY_LIMIT },
+        },
+      },
+    ],
+  },
+};
+
+const RATE_LIMIT_RULE: ObjectSchema = {
+  type: 'object',
+  required: ['limit', 'windowSeconds'],
+  properties: {
+    limit: { type: 'integer', minimum: 0 },
+    windowSeconds: { type: 'integer', minimum: 1 },
+  },
+};
+
+const QUERY_REWRITE_OPTIONS: ObjectSchema = {
+  type: 'object',
+  properties: {
+    condense: { type: 'boolean' },
+    multiQuery: { type: 'integer', minimum: 0, maximum: MAX_QUERY_EXPANSIONS },
+    hyde: { type: 'boolean' },
+  },
+};
+
+const CONTEXT_OPTIONS: ObjectSchema = {
+  type: 'object',
+  properties: {
+    maxContextTokens: { type: 'integer', minimum: 512, description: 'At most CHAT_CONTEXT_TOKENS; larger values are reduced to it' },
+    neighbors: { type: 'integer', minimum: 0, maximum: MAX_NEIGHBORS },
+    dedupeThreshold: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+  },
+};
+
+// Request schemas, checked by readJsonBody
+
+export const EMBED_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['texts'],
+  properties: {
+    texts: { type: 'array', items: TEXT, minItems: 1, maxItems: MAX_EMBED_TEXTS },
+    metadata: {
+      type: 'object',
+      required: ['documentId', 'documentName', 'documentType'],
+      properties: {
+        documentId: ID,
+        documentName: NAME,
+        documentType: NAME,
+        pageNumber: { type: 'integer', minimum: 1 },
+        chunkIndex: { type: 'integer', minimum: 0 },
+        timestamp: { type: 'string', format: 'date-time' },
+      },
+      maxProperties: MAX_METADATA_KEYS,
+    },
+    chunking: CHUNKING_OPTIONS,
+    retention: { type: 'object', properties: RETENTION_SETTINGS },
+    overflow: { type: 'string', enum: OVERFLOW_POLICIES },
+  },
+};
+
+export const RAG_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['question'],
+  properties: {
+    question: TEXT,
+    history: {
+      type: 'array',
+      maxItems: MAX_HISTORY_LENGTH,
+      items: {
+        type: 'object',
+        required: ['role', 'content'],
+        properties: {
+          role: { type: 'string', enum: ['user', 'assistant', 'system'] },
+          content: { type: 'string', maxLength: MAX_TEXT_LENGTH },
+        },
+      },
+    },
+    sessionId: ID,
+    retrieval: { type: 'object', properties: QUERY_OPTIONS },
+    rewrite: QUERY_REWRITE_OPTIONS,
+    context: CONTEXT_OPTIONS,
+  },
+};
+
+export const QUERY_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['query'],
+  properties: {
+    query: TEXT,
+    limit: { type: 'integer', minimum: 1, maximum: MAX_QUERY_LIMIT },
+    ...QUERY_OPTIONS,
+  },
+};
+
+export const DELETE_DOCUMENT_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['documentId'],
+  properties: { documentId: ID },
+};
+
+export const UPDATE_RETENTION_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['documentId'],
+  properties: { documentId: ID, ...RETENTION_SETTINGS },
+};
+
+export const CREATE_WORKSPACE_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: WORKSPACE_ID,
+    name: NAME,
+    vectorLimit: { type: 'integer', minimum: 1 },
+    overflowPolicy: { type: 'string', enum: OVERFLOW_POLICIES },
+  },
+};
+
+export const DELETE_WORKSPACE_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['workspaceId'],
+  properties: { workspaceId: WORKSPACE_ID },
+};
+
+export const ISSUE_API_KEY_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['name', 'scopes'],
+  properties: {
+    name: NAME,
+    scopes: { type: 'array', items: { type: 'string', enum: API_KEY_SCOPES }, minItems: 1, maxItems: API_KEY_SCOPES.length },
+    workspaceIds: { type: 'array', items: WORKSPACE_ID, maxItems: MAX_FILTER_VALUES },
+    rateLimits: {
+      type: 'object',
+      properties: Object.fromEntries(RATE_LIMIT_CLASSES.map(rateLimitClass => [rateLimitClass, RATE_LIMIT_RULE])),
+      additionalProperties: false,
+    },
+  },
+};
+
+export const REVOKE_API_KEY_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['keyId'],
+  properties: { keyId: ID },
+};
+
+export const FEEDBACK_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['sessionId', 'messageSeq', 'rating'],
+  properties: {
+    sessionId: ID,
+    messageSeq: { type: 'integer', minimum: 1 },
+    rating: { type: 'string', enum: ['up', 'down'] },
+    comment: { type: 'string', maxLength: MAX_FEEDBACK_COMMENT_LENGTH },
+    wrongCitations: { type: 'array', items: { type: 'integer', minimum: 1 }, maxItems: MAX_QUERY_LIMIT },
+  },
+};
+
+export const CHAT_COMPLETION_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['messages'],
+  properties: {
+    model: { type: 'string', maxLength: MAX_NAME_LENGTH },
+    messages: {
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_HISTORY_LENGTH + 1,
+      items: {
+        type: 'object',
+        required: ['role', 'content'],
+        properties: {
+          role: { type: 'string', enum: ['system', 'user', 'assistant'] },
+          content: {
+            anyOf: [
+              { type: 'string', maxLength: MAX_TEXT_LENGTH },
+              {
+                type: 'array',
+                maxItems: MAX_FILTER_VALUES,
+                items: {
+                  type: 'object',
+                  required: ['type', 'text'],
+                  properties: {
+                    type: { type: 'string', enum: ['text'] },
+                    text: { type: 'string', maxLength: MAX_TEXT_LENGTH },
+                  },
+                },
+              },
+            ],
+          },
+        },
+      },
+    },
+    stream: { type: 'boolean' },
+    max_tokens: { type: 'integer', minimum: 1 },
+    max_completion_tokens: { type: 'integer', minimum: 1 },
+    temperature: { type: 'number', minimum: 0, maximum: 5 },
+    retrieval: { type: 'object', properties: QUERY_OPTIONS },
+    rewrite: QUERY_REWRITE_OPTIONS,
+    context: CONTEXT_OPTIONS,
+  },
+};
+
+export const EMBEDDINGS_REQUEST_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['input'],
+  properties: {
+    input: { anyOf: [TEXT, { type: 'array', items: TEXT, minItems: 1, maxItems: MAX_EMBEDDING_INPUTS }] },
+    model: { type: 'string', maxLength: MAX_NAME_LENGTH },
+    encoding_format: { type: 'string', enum: ['float', 'base64'] },
+  },
+};
+
+// Fields of a POST /documents/upload form
+export const UPLOAD_FORM_SCHEMA: ObjectSchema = {
+  type: 'object',
+  required: ['file'],
+  properties: {
+    file: { type: 'string', format: 'binary', description: 'PDF, DOCX, HTML, Markdown or plain text' },
+    documentId: ID,
+    documentName: NAME,
+    chunkStrategy: { type: 'string', enum: CHUNK_STRATEGIES },
+    overflow: { type: 'string', enum: OVERFLOW_POLICIES },
+    pinned: { type: 'string', enum: ['true', 'false'] },
+    ttlDays: { type: 'string', pattern: '^\\d+$', description: 'Days to keep the document, 0 keeps forever' },
+  },
+};
@@ -0,0 +1,380 @@
+// Response body schemas for API endpoints, published in the OpenAPI document
+import type { Schema, ObjectSchema, ArraySchema } from '../validation';
+import { API_KEY_SCOPES } from '../auth';
+import { CHUNK_STRATEGIES } from '../chunking';
+import { OVERFLOW_POLICIES } from './requests';
+
+const STRING: Schema = { type: 'string' };
+const INTEGER: Schema = { type: 'integer' };
+const NUMBER: Schema = { type: 'number' };
+const BOOLEAN: Schema = { type: 'boolean' };
+const DATE_TIME: Schema = { type: 'string', format: 'date-time' };
+const STRINGS: ArraySchema = { type: 'array', items: STRING };
+
+function nullable(schema: Schema): Schema {
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function object(properties: Record<string, Schema>, required: string[] = []): ObjectSchema {
+  return { type: 'object', required, properties };
+}
+
+function arrayOf(items: Schema): ArraySchema {
+  return { type: 'array', items };
+}
+
+const SUCCESS = { success: BOOLEAN };
+
+const RETRIEVERS: ArraySchema = { type: 'array', items: { type: 'string', enum: ['vector', 'keyword'] } };
+
+const QUERY_RESULT = object({
+  id: STRING,
+  score: { type: 'number', description: 'Cosine similarity, BM25 score or fused rank score depending on the mode' },
+  vectorScore: NUMBER,
+  keywordScore: NUMBER,
+  rerankScore: NUMBER,
+  retrievers: RETRIEVERS,
+  contextText: STRING,
+  neighborIds: STRINGS,
+  metadata: {
+    type: 'object',
+    required: ['chunk'],
+    properties: {
+      chunk: { type: 'string', description: 'First 200 characters of the chunk' },
+      fullChunk: STRING,
+      documentId: STRING,
+      documentName: STRING,
+      documentType: STRING,
+      pageNumber: INTEGER,
+      chunkIndex: INTEGER,
+      textIndex: INTEGER,
+      timestamp: DATE_TIME,
+    },
+    description: 'Also carries the custom metadata given at ingestion',
+  },
+}, ['id', 'score', 'metadata']);
+
+const SOURCE_CITATION = object({
+  index: INTEGER,
+  vectorId: STRING,
+  documentId: STRING,
+  documentName: STRING,
+  pageNumber: INTEGER,
+  score: NUMBER,
+  rerankScore: NUMBER,
+  snippet: STRING,
+}, ['index', 'vectorId', 'score', 'snippet']);
+
+const CITATION = object({
+  marker: INTEGER,
+  occurrences: INTEGER,
+  source: SOURCE_CITATION,
+}, ['marker', 'occurrences', 'source']);
+
+const EMBED_RESULT_PROPERTIES: Record<string, Schema> = {
+  ...SUCCESS,
+  vectorIds: STRINGS,
+  version: INTEGER,
+  added: INTEGER,
+  unchanged: INTEGER,
+  removed: INTEGER,
+  skipped: { type: 'integer', description: 'New chunks left out by a partial ingestion' },
+  evicted: arrayOf(object({ documentId: STRING, name: STRING, vectors: INTEGER, lastUsedAt: DATE_TIME })),
+  error: STRING,
+};
+
+const DOCUMENT_SUMMARY_PROPERTIES: Record<string, Schema> = {
+  id: STRING,
+  name: STRING,
+  type: STRING,
+  chunksCount: INTEGER,
+  chunkStrategy: { type: 'string', enum: CHUNK_STRATEGIES },
+  uploadedAt: DATE_TIME,
+  updatedAt: DATE_TIME,
+  version: INTEGER,
+  pinned: BOOLEAN,
+  ttlDays: INTEGER,
+};
+
+const DIGEST_PROPERTIES: Record<string, Schema> = {
+  version: { type: 'string', description: 'Document version, or the combined versions for a multi-document outline' },
+  sections: { type: 'integer', description: 'Map-step inputs the digest was reduced from' },
+  maxWords: INTEGER,
+  generatedAt: DATE_TIME,
+  cached: BOOLEAN,
+};
+
+const SESSION_INFO_PROPERTIES: Record<string, Schema> = {
+  sessionId: STRING,
+  workspaceId: STRING,
+  title: STRING,
+  createdAt: DATE_TIME,
+  updatedAt: DATE_TIME,
+  messageCount: INTEGER,
+  summary: STRING,
+  summarizedThrough: INTEGER,
+};
+
+const ANSWER_FEEDBACK_PROPERTIES: Record<string, Schema> = {
+  rating: { type: 'string', enum: ['up', 'down'] },
+  comment: STRING,
+  wrongCitations: arrayOf(INTEGER),
+  createdAt: DATE_TIME,
+};
+
+const SESSION_MESSAGE = object({
+  seq: INTEGER,
+  role: { type: 'string', enum: ['system', 'user', 'assistant'] },
+  content: STRING,
+  createdAt: DATE_TIME,
+  sources: arrayOf(SOURCE_CITATION),
+  citations: arrayOf(CITATION),
+  feedback: object(ANSWER_FEEDBACK_PROPERTIES),
+}, ['seq', 'role', 'content', 'createdAt']);
+
+const FEEDBACK_RECORD = object({
+  ...ANSWER_FEEDBACK_PROPERTIES,
+  sessionId: STRING,
+  messageSeq: INTEGER,
+  keyId: STRING,
+  question: STRING,
+  answer: STRING,
+  chunkIds: STRINGS,
+  wrongSources: arrayOf(SOURCE_CITATION),
+});
+
+const WORKSPACE = object({
+  id: STRING,
+  name: STRING,
+  createdAt: DATE_TIME,
+  vectorLimit: INTEGER,
+  overflowPolicy: { type: 'string', enum: OVERFLOW_POLICIES },
+}, ['id', 'name', 'createdAt']);
+
+const RATE_LIMIT_RULE = object({ limit: INTEGER, windowSeconds: INTEGER });
+
+const API_KEY_INFO = object({
+  id: STRING,
+  name: STRING,
+  scopes: { type: 'array', items: { type: 'string', enum: API_KEY_SCOPES } },
+  workspaceIds: STRINGS,
+  rateLimits: object({ embed: RATE_LIMIT_RULE, query: RATE_LIMIT_RULE, chat: RATE_LIMIT_RULE }),
+  createdAt: DATE_TIME,
+  revokedAt: DATE_TIME,
+}, ['id', 'name', 'scopes', 'createdAt']);
+
+const RETENTION_RULE: Schema = { type: 'string', enum: ['pinned', 'document', 'type', 'default'] };
+
+const QUERY_GROUP = object({
+  query: STRING,
+  count: INTEGER,
+  bestScore: nullable(NUMBER),
+  lastAskedAt: DATE_TIME,
+});
+
+export const HEALTH_RESPONSE_SCHEMA = object({ status: STRING, service: STRING });
+
+export const OPENAPI_RESPONSE_SCHEMA: ObjectSchema = { type: 'object', description: 'This document' };
+
+export const CONFIG_RESPONSE_SCHEMA = object({
+  workspaceId: STRING,
+  vectorLimit: INTEGER,
+  config: { type: 'object', description: 'Effective settings, see the configuration table in the README' },
+});
+
+export const EMBED_RESPONSE_SCHEMA = object(EMBED_RESULT_PROPERTIES, ['success']);
+
+export const UPLOAD_RESPONSE_SCHEMA = object({
+  ...EMBED_RESULT_PROPERTIES,
+  documentId: STRING,
+  documentName: STRING,
+  documentType: STRING,
+  pageCount: INTEGER,
+  sectionsCount: INTEGER,
+}, ['success', 'documentId', 'documentName', 'documentType']);
+
+export const QUERY_RESPONSE_SCHEMA = arrayOf(QUERY_RESULT);
+
+export const CHAT_COMPLETION_RESPONSE_SCHEMA = object({
+  id: STRING,
+  object: { type: 'string', enum: ['chat.completion'] },
+  created: INTEGER,
+  model: STRING,
+  choices: arrayOf(object({
+    index: INTEGER,
+    message: object({ role: { type: 'string', enum: ['assistant'] }, content: STRING }),
+    finish_reason: STRING,
+  })),
+  sources: arrayOf(SOURCE_CITATION),
+  citations: arrayOf(CITATION),
+}, ['id', 'object', 'created', 'model', 'choices']);
+
+export const EMBEDDINGS_RESPONSE_SCHEMA = object({
+  object: { type: 'string', enum: ['list'] },
+  data: arrayOf(object({
+    object: { type: 'string', enum: ['embedding'] },
+    index: INTEGER,
+    embedding: { anyOf: [arrayOf(NUMBER), { type: 'string', description: 'Base64 little-endian float32' }] },
+  })),
+  model: STRING,
+  usage: object({ prompt_tokens: INTEGER, total_tokens: INTEGER }),
+}, ['object', 'data', 'model', 'usage']);
+
+export const DOCUMENT_LIST_RESPONSE_SCHEMA = object({
+  documents: arrayOf(object(DOCUMENT_SUMMARY_PROPERTIES, ['id', 'name', 'type', 'chunksCount', 'uploadedAt'])),
+  total: { type: 'integer', description: 'Documents matching the filters, across all pages' },
+  nextCursor: nullable(STRING),
+}, ['documents', 'total', 'nextCursor']);
+
+export const DOCUMENT_RESPONSE_SCHEMA = object({
+  ...DOCUMENT_SUMMARY_PROPERTIES,
+  vectorIds: STRINGS,
+  chunks: arrayOf(object({
+    id: STRING,
+    textIndex: INTEGER,
+    chunkIndex: INTEGER,
+    pageNumber: INTEGER,
+    heading: STRING,
+    text: STRING,
+  }, ['id', 'textIndex', 'chunkIndex', 'text'])),
+}, ['id', 'name', 'type', 'chunksCount', 'uploadedAt', 'vectorIds', 'chunks']);
+
+export const DELETE_DOCUMENT_RESPONSE_SCHEMA = object({ ...SUCCESS, deletedCount: INTEGER, error: STRING }, ['success', 'deletedCount']);
+
+export const RETENTION_RESPONSE_SCHEMA = object({
+  ...DOCUMENT_SUMMARY_PROPERTIES,
+  expiry: object({
+    rule: RETENTION_RULE,
+    days: nullable(INTEGER),
+    expiresAt: nullable(DATE_TIME),
+  }),
+}, ['id', 'expiry']);
+
+export const SUMMARY_RESPONSE_SCHEMA = object({
+  documentId: STRING,
+  documentName: STRING,
+  summary: STRING,
+  ...DIGEST_PROPERTIES,
+}, ['documentId', 'summary', 'version', 'generatedAt', 'cached']);
+
+export const OUTLINE_RESPONSE_SCHEMA = object({
+  documentId: STRING,
+  documentName: STRING,
+  outline: STRING,
+  ...DIGEST_PROPERTIES,
+}, ['documentId', 'outline', 'version', 'generatedAt', 'cached']);
+
+export const COLLECTION_OUTLINE_RESPONSE_SCHEMA = object({
+  documentIds: STRINGS,
+  outline: STRING,
+  ...DIGEST_PROPERTIES,
+}, ['outline', 'version', 'generatedAt', 'cached']);
+
+export const FEEDBACK_RESPONSE_SCHEMA = object({ ...SUCCESS, feedback: FEEDBACK_RECORD }, ['success', 'feedback']);
+
+export const SESSION_LIST_RESPONSE_SCHEMA = object({
+  sessions: arrayOf(object({
+    sessionId: STRING,
+    workspaceId: STRING,
+    ownerKeyId: STRING,
+    title: STRING,
+    createdAt: DATE_TIME,
+    lastActiveAt: DATE_TIME,
+  }, ['sessionId', 'workspaceId', 'createdAt', 'lastActiveAt'])),
+}, ['sessions']);
+
+export const SESSION_RESPONSE_SCHEMA = object({ ...SESSION_INFO_PROPERTIES, ownerKeyId: STRING }, ['sessionId', 'workspaceId', 'messageCount']);
+
+export const SESSION_MESSAGES_RESPONSE_SCHEMA = object({
+  messages: arrayOf(SESSION_MESSAGE),
+  nextCursor: nullable(INTEGER),
+  total: INTEGER,
+}, ['messages', 'nextCursor', 'total']);
+
+export const SESSION_EXPORT_RESPONSE_SCHEMA = object({
+  session: object(SESSION_INFO_PROPERTIES),
+  messages: arrayOf(SESSION_MESSAGE),
+}, ['session', 'messages']);
+
+export const DELETE_SESSION_RESPONSE_SCHEMA = object({ ...SUCCESS, sessionId: STRING }, ['success', 'sessionId']);
+
+export const WORKSPACE_LIST_RESPONSE_SCHEMA = object({ workspaces: arrayOf(WORKSPACE) }, ['workspaces']);
+
+export const CREATE_WORKSPACE_RESPONSE_SCHEMA = object({ ...SUCCESS, workspace: WORKSPACE }, ['success', 'workspace']);
+
+export const DELETE_WORKSPACE_RESPONSE_SCHEMA = object({
+  ...SUCCESS,
+  deletedDocuments: INTEGER,
+  deletedVectors: INTEGER,
+  deletedSessions: INTEGER,
+}, ['success', 'deletedDocuments', 'deletedVectors']);
+
+export const API_KEY_LIST_RESPONSE_SCHEMA = object({ keys: arrayOf(API_KEY_INFO) }, ['keys']);
+
+export const ISSUE_API_KEY_RESPONSE_SCHEMA = object({
+  key: { type: 'string', description: 'The plaintext key; it is not shown again' },
+  record: API_KEY_INFO,
+}, ['key', 'record']);
+
+export const REVOKE_API_KEY_RESPONSE_SCHEMA = object(SUCCESS, ['success']);
+
+export const CLEANUP_RESPONSE_SCHEMA = object({
+  dryRun: BOOLEAN,
+  checkedAt: DATE_TIME,
+  documents: arrayOf(object({
+    workspaceId: STRING,
+    documentId: STRING,
+    name: STRING,
+    type: STRING,
+    vectors: INTEGER,
+    rule: RETENTION_RULE,
+    days: nullable(INTEGER),
+    expiresAt: DATE_TIME,
+  })),
+  sessions: arrayOf(object({ workspaceId: STRING, sessionId: STRING, lastActiveAt: DATE_TIME, expiresAt: DATE_TIME })),
+  documentsDeleted: INTEGER,
+  vectorsDeleted: INTEGER,
+  sessionsDeleted: INTEGER,
+  errors: STRINGS,
+  executionTime: { type: 'integer', description: 'Milliseconds' },
+}, ['dryRun', 'checkedAt', 'documents', 'sessions']);
+
+export const ANALYTICS_RESPONSE_SCHEMA = object({
+  workspaceId: STRING,
+  generatedAt: DATE_TIME,
+  queryLog: object({ available: BOOLEAN, entries: INTEGER, since: nullable(DATE_TIME) }),
+  zeroHitQueries: arrayOf(QUERY_GROUP),
+  lowScoreQueries: arrayOf(QUERY_GROUP),
+  mostCitedDocuments: arrayOf(object({ documentId: STRING, documentName: STRING, answers: INTEGER, lastCitedAt: DATE_TIME })),
+  feedback: object({ up: INTEGER, down: INTEGER }),
+  downvotedAnswers: arrayOf(FEEDBACK_RECORD),
+}, ['workspaceId', 'generatedAt', 'queryLog']);
+
+export const RECONCILE_RESPONSE_SCHEMA = object({
+  fixed: BOOLEAN,
+  totalDrift: INTEGER,
+  workspaces: arrayOf(object({
+    workspaceId: STRING,
+    recordedCount: INTEGER,
+    actualCount: INTEGER,
+    drift: INTEGER,
+    reserved: INTEGER,
+    documents: INTEGER,
+    untagged: { type: 'integer', description: 'Default-workspace vectors without a workspaceId' },
+    fixed: BOOLEAN,
+  })),
+}, ['fixed', 'totalDrift', 'workspaces']);
+
+export const STATUS_RESPONSE_SCHEMA = object({
+  status: STRING,
+  aiGate: nullable({ type: 'object', description: 'Active and queued AI requests; null without the AI_GATE binding' }),
+  timestamp: DATE_TIME,
+});
+
+export const QUOTA_METRICS_RESPONSE_SCHEMA = object({
+  workspaceId: STRING,
+  count: INTEGER,
+  limit: INTEGER,
+  percentUsed: NUMBER,
+  timestamp: DATE_TIME,
+});
@@ -0,0 +1,275 @@
+/**
+ * Declarative request validation
+ *
+ * Schemas are plain objects in the subset of JSON Schema the API needs, so the same definitions
+ * can be published as documentation. validate() reports every problem with the path of the
+ * offending field instead of stopping at the first one. Objects accept properties a schema does
+ * not list unless additionalProperties says otherwise.
+ */
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | NullSchema
+  | ArraySchema
+  | ObjectSchema
+  | AnyOfSchema;
+
+interface SchemaBase {
+  description?: string;
+}
+
+export interface StringSchema extends SchemaBase {
+  type: 'string';
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enum?: readonly string[];
+  format?: 'date-time' | 'binary'; // binary marks file fields of forms, which hold a File rather than a string
+}
+
+export interface NumberSchema extends SchemaBase {
+  type: 'number' | 'integer';
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+}
+
+export interface BooleanSchema extends SchemaBase {
+  type: 'boolean';
+}
+
+export interface NullSchema extends SchemaBase {
+  type: 'null';
+}
+
+export interface ArraySchema extends SchemaBase {
+  type: 'array';
+  items: Schema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema extends SchemaBase {
+  type: 'object';
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | Schema;
+  maxProperties?: number;
+}
+
+export interface AnyOfSchema extends SchemaBase {
+  anyOf: Schema[];
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. "texts[2]" or "retrieval.filter.from"; empty for the body itself
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Check data against a schema; T is the request type the schema describes
+ */
+export function validate<T>(schema: Schema, data: unknown): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  check(schema, data, '', issues);
+  return issues.length === 0 ? { ok: true, value: data as T } : { ok: false, issues };
+}
+
+function check(schema: Schema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  if ('anyOf' in schema) {
+    checkAnyOf(schema, value, path, issues);
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      checkString(schema, value, path, issues);
+      return;
+    case 'number':
+    case 'integer':
+      checkNumber(schema, value, path, issues);
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: 'must be a boolean' });
+      }
+      return;
+    case 'null':
+      if (value !== null) {
+        issues.push({ path, message: 'must be null' });
+      }
+      return;
+    case 'array':
+      checkArray(schema, value, path, issues);
+      return;
+    case 'object':
+      checkObject(schema, value, path, issues);
+      return;
+  }
+}
+
+function checkString(schema: StringSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (schema.format === 'binary') {
+    if (!(value instanceof Blob)) {
+      issues.push({ path, message: 'must be a file' });
+    }
+    return;
+  }
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'must be a string' });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.join(', ')}` });
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ path, message: `must match ${schema.pattern}` });
+  }
+  if (schema.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+    issues.push({ path, message: 'must be an ISO 8601 date-time' });
+  }
+}
+
+function checkNumber(schema: NumberSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: `must be ${schema.type === 'integer' ? 'an integer' : 'a number'}` });
+    return;
+  }
+  if (schema.type === 'integer' && !Number.isInteger(value)) {
+    issues.push({ path, message: 'must be an integer' });
+    return;
+  }
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `must be at least ${schema.minimum}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    issues.push({ path, message: `must be greater than ${schema.exclusiveMinimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    issues.push({ path, message: `must be at most ${schema.maximum}` });
+  }
+}
+
+function checkArray(schema: ArraySchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array' });
+    return;
+  }
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    issues.push({ path, message: schema.minItems === 1 ? 'must not be empty' : `must have at least ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    // Skip the items so an oversized array does not produce thousands of issues
+    issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+    return;
+  }
+  value.forEach((item, index) => check(schema.items, item, `${path}[${index}]`, issues));
+}
+
+function checkObject(schema: ObjectSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  const properties = schema.properties || {};
+  const keys = Object.keys(record);
+
+  for (const name of schema.required || []) {
+    if (record[name] === undefined) {
+      issues.push({ path: childPath(path, name), message: 'is required' });
+    }
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    issues.push({ path, message: `must have at most ${schema.maxProperties} properties` });
+    return;
+  }
+
+  for (const key of keys) {
+    const propertySchema = properties[key];
+    if (record[key] === undefined) {
+      continue;
+    }
+    if (propertySchema) {
+      check(propertySchema, record[key], childPath(path, key), issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: childPath(path, key), message: 'is not allowed' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      check(schema.additionalProperties, record[key], childPath(path, key), issues);
+    }
+  }
+}
+
+function checkAnyOf(schema: AnyOfSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  const attempts = schema.anyOf.map(option => {
+    const optionIssues: ValidationIssue[] = [];
+    check(option, value, path, optionIssues);
+    return optionIssues;
+  });
+  if (attempts.some(optionIssues => optionIssues.length === 0)) {
+    return;
+  }
+
+  // When only one option has the right type, its problems are the useful ones
+  const sameType = schema.anyOf
+    .map((option, index) => ({ option, issues: attempts[index] }))
+    .filter(({ option }) => matchesType(option, value));
+  if (sameType.length === 1) {
+    issues.push(...sameType[0].issues);
+    return;
+  }
+  issues.push({ path, message: `must be ${schema.anyOf.map(describeType).join(' or ')}` });
+}
+
+function matchesType(schema: Schema, value: unknown): boolean {
+  if ('anyOf' in schema) {
+    return schema.anyOf.some(option => matchesType(option, value));
+  }
+  switch (schema.type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    case 'integer':
+      return typeof value === 'number';
+    default:
+      return typeof value === schema.type;
+  }
+}
+
+function describeType(schema: Schema): string {
+  if ('anyOf' in schema) {
+    return schema.anyOf.map(describeType).join(' or ');
+  }
+  switch (schema.type) {
+    case 'array':
+      return 'an array';
+    case 'object':
+      return 'an object';
+    case 'integer':
+      return 'an integer';
+    case 'null':
+      return 'null';
+    default:
+      return `a ${schema.type}`;
+  }
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
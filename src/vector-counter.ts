@@ -0,0 +1,88 @@
+/**
+ * Client for the VectorCounter Durable Object (one instance per workspace)
+ *
+ * Returns null when the VECTOR_COUNTER binding is missing so callers can fall back to the
+ * KV counter, as runAI does for the AI gate. A new counter is seeded on its first request with
+ * the workspace's KV count, or the vectors of its document records if there is none.
+ */
+
+import type { Env, DocumentRecord } from './types';
+import { workspaceKey, listWorkspaceKeys } from './workspaces';
+import { isInternalKey } from './kv';
+
+// KV key of the count kept before the counter existed, and still without the binding
+export const VECTOR_COUNT_KEY = '__vector_count__';
+
+export interface CounterStatus {
+  count: number;
+  reserved: number;
+}
+
+export interface CounterReservation extends CounterStatus {
+  allowed: boolean;
+  reservationId: string | null;
+  available: number;
+}
+
+async function counterRequest<T>(env: Env, workspaceId: string, path: string, body?: unknown): Promise<T | null> {
+  if (!env.VECTOR_COUNTER) {
+    return null;
+  }
+
+  const counter = env.VECTOR_COUNTER.get(env.VECTOR_COUNTER.idFromName(workspaceId));
+  const send = () => counter.fetch(`https://vector-counter${path}`, body === undefined ? undefined : {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  let response = await send();
+  if (response.status === 409) {
+    await counter.fetch('https://vector-counter/seed', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ count: await initialVectorCount(env) }),
+    });
+    response = await send();
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(error?.error || `Vector counter request failed with status ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+// Count for a new counter; env is scoped to the counter's workspace
+async function initialVectorCount(env: Env): Promise<number> {
+  const stored = await env.DOC_METADATA.get(workspaceKey(env, VECTOR_COUNT_KEY), 'text');
+  if (stored) {
+    return parseInt(stored, 10);
+  }
+
+  const documentIds = (await listWorkspaceKeys(env)).filter(key => !isInternalKey(key));
+  const records = await Promise.all(
+    documentIds.map(documentId => env.DOC_METADATA.get(workspaceKey(env, documentId), 'json') as Promise<DocumentRecord | null>)
+  );
+  return records.reduce((sum, record) => sum + (record?.vectorIds?.length || 0), 0);
+}
+
+export function getCounterStatus(env: Env, workspaceId: string): Promise<CounterStatus | null> {
+  return counterRequest<CounterStatus>(env, workspaceId, '/status');
+}
+
+export function reserveVectors(env: Env, workspaceId: string, amount: number, limit: number): Promise<CounterReservation | null> {
+  return counterRequest<CounterReservation>(env, workspaceId, '/reserve', { amount, limit });
+}
+
+export function commitVectors(env: Env, workspaceId: string, reservationId: string | null, delta: number): Promise<CounterStatus | null> {
+  return counterRequest<CounterStatus>(env, workspaceId, '/commit', { reservationId, delta });
+}
+
+export function releaseVectors(env: Env, workspaceId: string, reservationId: string): Promise<CounterStatus | null> {
+  return counterRequest<CounterStatus>(env, workspaceId, '/release', { reservationId });
+}
+
+export function setVectorCounter(env: Env, workspaceId: string, count: number): Promise<(CounterStatus & { previous: number }) | null> {
+  return counterRequest<CounterStatus & { previous: number }>(env, workspaceId, '/set', { count });
+}
@@ -1,30 +1,58 @@
-import type { Env, EmbedResponse, QueryResult, VectorizeVector, EmbedMetadata } from './types';
+import type { Env, DocumentRecord, EmbedResponse, QueryResult, VectorizeVector, VectorizeMatch, EmbedMetadata, EmbedOptions, QueryOptions, QueryFilter } from './types';
+import { chunkDocument } from './chunking';
+import { getConfig } from './config';
+import { runAI } from './ai';
+import type { AIRunOptions } from './ai';
+import { putDocumentChunks, deleteDocumentChunks } from './chunk-store';
+import type { DocumentChunks } from './chunk-store';
+import { indexDocumentChunks, removeIndexedDocument } from './lexical-index';
+import { putDocumentRecord } from './documents';
+import { invalidateDocumentDigests } from './digest-cache';
+import { keywordSearch, fuseResults, mergeResultLists, termFrequencies } from './lexical';
+import { matchesFilter, toVectorizeFilter } from './filters';
+import { DEFAULT_WORKSPACE_ID, currentWorkspaceId, workspaceKey, inWorkspace, listWorkspaceKeys, isReservedDocumentId } from './workspaces';
+import { VECTOR_COUNT_KEY, getCounterStatus, reserveVectors, commitVectors, releaseVectors, setVectorCounter } from './vector-counter';
+import { isInternalKey } from './kv';
+import { rerankResults, resolveRerank } from './rerank';
+import { dedupeResults, packResults } from './context-builder';
+import { sha256Hex } from './auth';
+import { applyRetention } from './retention';
+import { recordRetrieval, deleteRetrievalStats } from './retrieval-stats';
+import { planEviction } from './eviction';
+import type { EvictionCandidate } from './eviction';
 
-// Free tier model for embeddings
-const EMBED_MODEL = '@cf/baai/bge-small-en-v1.5';
-
-// Cloudflare Vectorize free tier limit
-const MAX_VECTORS = 100;
-
-// KV key for tracking vector count
-const VECTOR_COUNT_KEY = '__vector_count__';
+// Vector limit for the current workspace
+export function getVectorLimit(env: Env): number {
+  return env.WORKSPACE?.vectorLimit ?? getConfig(env).vectors.maxVectors;
+}
 
-// Vector quota tracking functions
+// Vector quota tracking functions (counted per workspace)
+// The VectorCounter Durable Object is authoritative; the KV key is only used without the binding
 export async function getVectorCount(env: Env): Promise<number> {
-  const count = await env.DOC_METADATA.get(VECTOR_COUNT_KEY, 'text');
+  const status = await getCounterStatus(env, currentWorkspaceId(env));
+  if (status) {
+    return status.count;
+  }
+  const count = await env.DOC_METADATA.get(workspaceKey(env, VECTOR_COUNT_KEY), 'text');
   return count ? parseInt(count, 10) : 0;
 }
 
 export async function updateVectorCount(env: Env, delta: number): Promise<number> {
+  const status = await commitVectors(env, currentWorkspaceId(env), null, delta);
+  if (status) {
+    return status.count;
+  }
   const currentCount = await getVectorCount(env);
   const newCount = Math.max(0, currentCount + delta);
-  await env.DOC_METADATA.put(VECTOR_COUNT_KEY, newCount.toString());
+  await env.DOC_METADATA.put(workspaceKey(env, VECTOR_COUNT_KEY), newCount.toString());
   return newCount;
 }
 
 export async function checkVectorQuota(env: Env, requiredVectors: number): Promise<{ allowed: boolean; currentCount: number; availableQuota: number }> {
-  const currentCount = await getVectorCount(env);
-  const availableQuota = MAX_VECTORS - currentCount;
+  const status = await getCounterStatus(env, currentWorkspaceId(env));
+  const currentCount = status ? status.count : await getVectorCount(env);
+  // Slots reserved by in-flight ingestions are not available either
+  const availableQuota = getVectorLimit(env) - currentCount - (status?.reserved ?? 0);
   const allowed = requiredVectors <= availableQuota;
   
   return {
@@ -34,6 +62,137 @@ export async function checkVectorQuota(env: Env, requiredVectors: number): Promi
   };
 }
 
+/**
+ * Reserve quota for vectors about to be upserted
+ * Settle the reservation with commitVectorQuota once the index has changed, or
+ * releaseVectorQuota if the upsert failed. Without the counter binding this is a plain check.
+ */
+export async function reserveVectorQuota(env: Env, requiredVectors: number): Promise<{
+  allowed: boolean;
+  reservationId: string | null;
+  currentCount: number;
+  availableQuota: number;
+}> {
+  const reservation = await reserveVectors(env, currentWorkspaceId(env), requiredVectors, getVectorLimit(env));
+  if (!reservation) {
+    return { ...(await checkVectorQuota(env, requiredVectors)), reservationId: null };
+  }
+
+  return {
+    allowed: reservation.allowed,
+    reservationId: reservation.reservationId,
+    currentCount: reservation.count,
+    availableQuota: reservation.allowed ? reservation.available + requiredVectors : reservation.available,
+  };
+}
+
+export async function commitVectorQuota(env: Env, reservationId: string | null, delta: number): Promise<number> {
+  const status = await commitVectors(env, currentWorkspaceId(env), reservationId, delta);
+  return status ? status.count : await updateVectorCount(env, delta);
+}
+
+export async function releaseVectorQuota(env: Env, reservationId: string | null): Promise<void> {
+  if (reservationId) {
+    await releaseVectors(env, currentWorkspaceId(env), reservationId);
+  }
+}
+
+/**
+ * Recompute the workspace's vector count from its document records and report the drift
+ * from the recorded count; with fix, overwrite the recorded count with the true one
+ * In the default workspace this also reports vectors from before workspaces, which lack the
+ * workspaceId the query filter needs, and with fix tags them.
+ */
+export async function reconcileVectorCount(env: Env, fix: boolean): Promise<{
+  workspaceId: string;
+  recordedCount: number;
+  actualCount: number;
+  drift: number;
+  reserved: number;
+  documents: number;
+  untagged: number;
+  fixed: boolean;
+}> {
+  const workspaceId = currentWorkspaceId(env);
+  const documentIds = (await listWorkspaceKeys(env)).filter(key => !isInternalKey(key));
+  const records = await Promise.all(
+    documentIds.map(documentId => env.DOC_METADATA.get(workspaceKey(env, documentId), 'json') as Promise<DocumentRecord | null>)
+  );
+  const actualCount = records.reduce((sum, record) => sum + (record?.vectorIds?.length || 0), 0);
+  const untagged = workspaceId === DEFAULT_WORKSPACE_ID
+    ? await tagLegacyVectors(env, records.flatMap(record => record?.vectorIds || []), fix)
+    : 0;
+
+  const status = await getCounterStatus(env, workspaceId);
+  const recordedCount = status ? status.count : await getVectorCount(env);
+  const drift = recordedCount - actualCount;
+
+  if (fix && drift !== 0) {
+    const updated = await setVectorCounter(env, workspaceId, actualCount);
+    if (!updated) {
+      await env.DOC_METADATA.put(workspaceKey(env, VECTOR_COUNT_KEY), actualCount.toString());
+    }
+    emitQuotaMetric(env, {
+      count: actualCount,
+      delta: -drift,
+      reason: 'reconcile'
+    });
+  }
+
+  return {
+    workspaceId,
+    recordedCount,
+    actualCount,
+    drift,
+    reserved: status?.reserved ?? 0,
+    documents: documentIds.length,
+    untagged,
+    fixed: fix && (drift !== 0 || untagged > 0),
+  };
+}
+
+// Vectorize returns at most this many vectors per getByIds call
+const GET_BY_IDS_BATCH_SIZE = 20;
+
+/**
+ * Merge metadata changes into stored vectors without re-embedding them
+ * Takes a function from each vector's current metadata and ID to its changes, or null to leave it
+ * alone; returns how many vectors needed changing.
+ */
+async function updateVectorMetadata(
+  env: Env,
+  vectorIds: string[],
+  changes: (metadata: Record<string, any>, vectorId: string) => Record<string, any> | null,
+  apply: boolean = true
+): Promise<number> {
+  let changed = 0;
+
+  for (let i = 0; i < vectorIds.length; i += GET_BY_IDS_BATCH_SIZE) {
+    const vectors = await env.DOC_INDEX.getByIds(vectorIds.slice(i, i + GET_BY_IDS_BATCH_SIZE));
+    const updated = vectors.flatMap(vector => {
+      const update = changes(vector.metadata || {}, vector.id);
+      return update ? [{ ...vector, metadata: { ...vector.metadata, ...update } }] : [];
+    });
+
+    changed += updated.length;
+    if (apply && updated.length > 0) {
+      await env.DOC_INDEX.upsert(updated);
+    }
+  }
+
+  return changed;
+}
+
+// Count, and with fix tag, default-workspace vectors stored before vectors carried a workspaceId
+async function tagLegacyVectors(env: Env, vectorIds: string[], fix: boolean): Promise<number> {
+  return await updateVectorMetadata(
+    env,
+    vectorIds,
+    metadata => metadata.workspaceId === undefined ? { workspaceId: DEFAULT_WORKSPACE_ID } : null,
+    fix
+  );
+}
+
 // Emit structured metrics for quota monitoring
 export function emitQuotaMetric(
   env: Env,
@@ -46,121 +205,258 @@ export function emitQuotaMetric(
   const logEntry = {
     type: 'vector_quota',
     timestamp: new Date().toISOString(),
+    workspaceId: currentWorkspaceId(env),
     count: metrics.count,
     delta: metrics.delta,
     reason: metrics.reason,
-    percentUsed: (metrics.count / MAX_VECTORS) * 100
+    percentUsed: (metrics.count / getVectorLimit(env)) * 100
   };
   
   console.log('[METRIC]', JSON.stringify(logEntry));
 }
 
-// Chunk text into smaller pieces for embedding
-export function chunkText(text: string, maxChunkSize: number = 1000): string[] {
-  const chunks: string[] = [];
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
-  
-  let currentChunk = '';
-  for (const sentence of sentences) {
-    if ((currentChunk + sentence).length > maxChunkSize && currentChunk.length > 0) {
-      chunks.push(currentChunk.trim());
-      currentChunk = sentence;
-    } else {
-      currentChunk += ' ' + sentence;
+// Workers AI embeds at most this many texts per call
+export const MAX_EMBEDDING_INPUTS = 100;
+
+/**
+ * Embed texts with the configured embedding model, one vector per text in order
+ * Larger inputs are sent in batches of MAX_EMBEDDING_INPUTS.
+ */
+export async function embedTexts(texts: string[], env: Env, options: AIRunOptions = {}): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let start = 0; start < texts.length; start += MAX_EMBEDDING_INPUTS) {
+    const batch = texts.slice(start, start + MAX_EMBEDDING_INPUTS);
+    const response = await runAI(env, getConfig(env).models.embed, { text: batch }, options);
+
+    if (!response || !Array.isArray(response.data) || response.data.length !== batch.length || !response.data.every(Array.isArray)) {
+      throw new Error('Invalid embedding response');
     }
+    embeddings.push(...(response.data as number[][]));
   }
-  
-  if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  return chunks;
+
+  return embeddings;
 }
 
 export async function embedAndStore(
   texts: string[],
   metadata: EmbedMetadata,
-  env: Env
+  env: Env,
+  options: EmbedOptions = {}
 ): Promise<EmbedResponse> {
+  // Checked here as well as in the request schemas so no caller can overwrite an internal record
+  // or another workspace's document
+  if (isReservedDocumentId(metadata.documentId)) {
+    return { success: false, error: `Invalid document ID: ${metadata.documentId}` };
+  }
+
   try {
     // Chunk texts if they're too large
     const allChunks: string[] = [];
     const chunkMetadata: Array<any> = [];
+    const now = new Date().toISOString();
     
+    const chunkingDefaults = getConfig(env).chunking;
+    const chunkStrategy = options.chunking?.strategy || chunkingDefaults.strategy;
+
     texts.forEach((text, textIndex) => {
-      const chunks = chunkText(text);
-      chunks.forEach((chunk, chunkIndex) => {
+      const chunks = chunkDocument(text, options.chunking, chunkingDefaults);
+      chunks.forEach(({ text: chunk, heading }, chunkIndex) => {
         allChunks.push(chunk);
+        const pageNumber = options.pageNumbers?.[textIndex] ?? metadata.pageNumber;
         chunkMetadata.push({
           ...metadata,
+          ...(pageNumber !== undefined ? { pageNumber } : {}),
+          ...(heading ? { heading } : {}),
           chunkIndex,
           textIndex,
+          chunkStrategy,
+          workspaceId: currentWorkspaceId(env),
           chunk: chunk.slice(0, 200), // Store first 200 chars for preview
           fullChunk: chunk,
-          timestamp: new Date().toISOString(),
+          timestamp: now,
         });
       });
     });
 
-    // Check vector quota before proceeding
-    const quotaCheck = await checkVectorQuota(env, allChunks.length);
-    if (!quotaCheck.allowed) {
+    // Compare deterministic chunk IDs with the previous version to find what changed
+    const chunkIds = await chunkVectorIds(env, metadata, allChunks, chunkMetadata);
+    const previous = await env.DOC_METADATA.get(workspaceKey(env, metadata.documentId), 'json') as DocumentRecord | null;
+    const previousIds = new Set(previous?.vectorIds || []);
+    const currentIds = new Set(chunkIds);
+
+    let addedIndexes = chunkIds
+      .map((id, idx) => (previousIds.has(id) ? -1 : idx))
+      .filter(idx => idx !== -1);
+    const removedIds = [...previousIds].filter(id => !currentIds.has(id));
+    const unchangedCount = chunkIds.length - addedIndexes.length;
+
+    if (previous && addedIndexes.length === 0 && removedIds.length === 0) {
+      // Identical content: nothing to embed, delete or invalidate, but retention may have changed
+      if (options.retention) {
+        const { pinned, ttlDays, ...rest } = previous;
+        await putDocumentRecord(env, metadata.documentId, { ...rest, ...applyRetention(previous, options.retention) });
+      }
+
+      return {
+        success: true,
+        vectorIds: chunkIds,
+        version: previous.version ?? 1,
+        added: 0,
+        unchanged: unchangedCount,
+        removed: 0,
+      };
+    }
+
+    // Reserve vector quota before proceeding (removed chunks free their slots)
+    const overflow = options.overflow || env.WORKSPACE?.overflowPolicy || 'reject';
+    let netDelta = addedIndexes.length - removedIds.length;
+    let quota = await reserveVectorQuota(env, Math.max(0, netDelta));
+    let skippedCount = 0;
+    let evicted: EvictionCandidate[] = [];
+
+    if (!quota.allowed && overflow === 'partial') {
+      // Embed the leading chunks that fit and leave the rest for a later re-ingest
+      const fitting = Math.max(0, addedIndexes.length - (netDelta - quota.availableQuota));
+      if (fitting > 0 || removedIds.length > 0) {
+        skippedCount = addedIndexes.length - fitting;
+        addedIndexes = addedIndexes.slice(0, fitting);
+        netDelta = addedIndexes.length - removedIds.length;
+        quota = await reserveVectorQuota(env, Math.max(0, netDelta));
+      }
+    } else if (!quota.allowed && overflow === 'evict') {
+      // Make room by deleting the least recently used unpinned documents
+      const plan = await planEviction(env, netDelta - quota.availableQuota, metadata.documentId);
+      if (plan) {
+        for (const candidate of plan) {
+          const result = await deleteDocumentVectors(candidate.documentId, env);
+          if (result.success) {
+            evicted.push(candidate);
+          }
+        }
+        emitQuotaMetric(env, {
+          count: quota.currentCount - evicted.reduce((sum, candidate) => sum + candidate.vectors, 0),
+          delta: -evicted.reduce((sum, candidate) => sum + candidate.vectors, 0),
+          reason: `evicted_${evicted.length}_documents_for_${metadata.documentId}`
+        });
+        quota = await reserveVectorQuota(env, Math.max(0, netDelta));
+      }
+    }
+
+    if (!quota.allowed) {
       // Emit metric for quota denial
       emitQuotaMetric(env, {
-        count: quotaCheck.currentCount,
+        count: quota.currentCount,
         delta: 0,
-        reason: `quota_denied_requested_${allChunks.length}`
+        reason: `quota_denied_requested_${netDelta}`
       });
       
       return {
         success: false,
-        error: `Vector limit exceeded. Current count: ${quotaCheck.currentCount}/${MAX_VECTORS}. Requested: ${allChunks.length}. Available quota: ${quotaCheck.availableQuota}`
+        error: `Vector limit exceeded. Current count: ${quota.currentCount}/${getVectorLimit(env)}. Requested: ${netDelta}. Available quota: ${quota.availableQuota}`,
+        ...(evicted.length > 0 ? { evicted } : {}),
       };
     }
 
-    // Generate embeddings using Workers AI
-    const embedResponse = await env.AI.run(EMBED_MODEL, {
-      text: allChunks,
-    });
+    // Chunks skipped by a partial ingestion are left out of the records until they fit
+    const skipped = new Set(chunkIds.filter((id, idx) => !previousIds.has(id) && !addedIndexes.includes(idx)));
+    const storedIndexes = chunkIds.map((_, idx) => idx).filter(idx => !skipped.has(chunkIds[idx]));
+    const storedIds = storedIndexes.map(idx => chunkIds[idx]);
 
-    if (!embedResponse || !embedResponse.data || !Array.isArray(embedResponse.data)) {
-      throw new Error('Invalid embedding response');
-    }
+    let newCount: number;
+    try {
+      if (addedIndexes.length > 0) {
+        // Generate embeddings for new and changed chunks only
+        const embeddings = await embedTexts(addedIndexes.map(idx => allChunks[idx]), env, { priority: 'bulk' });
 
-    // Prepare vectors for insertion
-    const vectors: VectorizeVector[] = embedResponse.data.map((embedding: number[], idx: number) => ({
-      id: `${metadata.documentId}-${Date.now()}-${idx}`,
-      values: embedding,
-      metadata: chunkMetadata[idx],
-    }));
+        // Prepare vectors for insertion
+        const vectors: VectorizeVector[] = embeddings.map((embedding, position) => ({
+          id: chunkIds[addedIndexes[position]],
+          values: embedding,
+          metadata: chunkMetadata[addedIndexes[position]],
+        }));
 
-    // Insert vectors into Vectorize
-    await env.DOC_INDEX.upsert(vectors);
+        // Insert vectors into Vectorize
+        await env.DOC_INDEX.upsert(vectors);
+      }
 
-    // Update vector count after successful insertion
-    const newCount = await updateVectorCount(env, vectors.length);
+      // Remove chunks that are no longer in the document, only after the new ones are stored
+      if (removedIds.length > 0) {
+        await env.DOC_INDEX.deleteByIds(removedIds);
+      }
+
+      // Kept chunks may have moved within the document, and take this version's ingestion time
+      const keptIndexes = new Map(storedIndexes.filter(idx => previousIds.has(chunkIds[idx])).map(idx => [chunkIds[idx], idx]));
+      await updateVectorMetadata(env, [...keptIndexes.keys()], (stored, vectorId) => {
+        const { chunkIndex, textIndex, timestamp } = chunkMetadata[keptIndexes.get(vectorId)!];
+        return stored.chunkIndex !== chunkIndex || stored.textIndex !== textIndex || stored.timestamp !== timestamp
+          ? { chunkIndex, textIndex, timestamp }
+          : null;
+      });
+
+      // Settle the reservation with the actual change to the index
+      newCount = await commitVectorQuota(env, quota.reservationId, netDelta);
+    } catch (error) {
+      await releaseVectorQuota(env, quota.reservationId)
+        .catch(releaseError => console.error('Release vector quota error:', releaseError));
+      throw error;
+    }
     
     // Emit metric for successful upsert
     emitQuotaMetric(env, {
       count: newCount,
-      delta: vectors.length,
+      delta: netDelta,
       reason: `upsert_document_${metadata.documentId}`
     });
 
     // Store document metadata in KV
-    const docMetadata = {
+    const docMetadata: DocumentRecord = {
       name: metadata.documentName,
       type: metadata.documentType,
-      chunksCount: vectors.length,
-      uploadedAt: new Date().toISOString(),
-      vectorIds: vectors.map(v => v.id),
+      chunksCount: storedIds.length,
+      chunkStrategy,
+      uploadedAt: previous?.uploadedAt || now,
+      updatedAt: now,
+      version: (previous?.version ?? 0) + 1,
+      ...applyRetention(previous, options.retention),
+      vectorIds: storedIds,
     };
     
-    await env.DOC_METADATA.put(metadata.documentId, JSON.stringify(docMetadata));
+    await putDocumentRecord(env, metadata.documentId, docMetadata);
+
+    // Keep chunk text and term frequencies for keyword search
+    const { documentId, documentName, documentType, pageNumber, chunkIndex, timestamp, ...customMetadata } = metadata as EmbedMetadata & Record<string, any>;
+    const chunkRecord: DocumentChunks = {
+      documentId,
+      documentName,
+      documentType,
+      timestamp: now, // The ingestion time, as on the vectors, so from/to filters match in both stores
+      metadata: customMetadata,
+      chunks: storedIndexes.map(idx => ({
+        id: chunkIds[idx],
+        text: allChunks[idx],
+        chunkIndex: chunkMetadata[idx].chunkIndex,
+        textIndex: chunkMetadata[idx].textIndex,
+        pageNumber: chunkMetadata[idx].pageNumber,
+        heading: chunkMetadata[idx].heading,
+        ...termFrequencies(allChunks[idx]),
+      })),
+    };
+    await putDocumentChunks(env, chunkRecord);
+    await indexDocumentChunks(env, chunkRecord);
+
+    // Summaries and outlines of a previous version are stale now
+    await invalidateDocumentDigests(env, documentId);
 
     return {
       success: true,
-      vectorIds: vectors.map(v => v.id),
+      vectorIds: storedIds,
+      version: docMetadata.version,
+      added: addedIndexes.length,
+      unchanged: unchangedCount,
+      removed: removedIds.length,
+      ...(skippedCount > 0 ? { skipped: skippedCount } : {}),
+      ...(evicted.length > 0 ? { evicted } : {}),
     };
   } catch (error) {
     console.error('Embed and store error:', error);
@@ -171,71 +467,201 @@ export async function embedAndStore(
   }
 }
 
+/**
+ * Deterministic vector IDs: <document hash>-<chunk hash>
+ * The chunk hash covers the text plus everything stored with its vector that a re-ingest can
+ * change (page, heading, document name/type, custom metadata), so a chunk keeps its ID exactly
+ * when its vector would be identical. Repeated text within a document is told apart by
+ * occurrence. Hashes keep IDs within Vectorize's 64-byte limit whatever the document ID.
+ */
+export async function chunkVectorIds(
+  env: Env,
+  metadata: EmbedMetadata,
+  chunks: string[],
+  chunkMetadata: Array<any>
+): Promise<string[]> {
+  const { timestamp, pageNumber, chunkIndex, ...documentFields } = metadata as EmbedMetadata & Record<string, any>;
+  const documentHash = (await sha256Hex(`${currentWorkspaceId(env)}\n${metadata.documentId}`)).slice(0, 16);
+  const documentFingerprint = JSON.stringify(Object.entries(documentFields).sort(([a], [b]) => a.localeCompare(b)));
+  const occurrences = new Map<string, number>();
+
+  return await Promise.all(chunks.map(async (text, idx) => {
+    const fingerprint = JSON.stringify([
+      documentFingerprint,
+      chunkMetadata[idx].chunkStrategy,
+      chunkMetadata[idx].pageNumber ?? null,
+      chunkMetadata[idx].heading ?? null,
+      text,
+    ]);
+    const occurrence = occurrences.get(fingerprint) || 0;
+    occurrences.set(fingerprint, occurrence + 1);
+
+    const chunkHash = (await sha256Hex(`${fingerprint}\n${occurrence}`)).slice(0, 40);
+    return `${documentHash}-${chunkHash}`;
+  }));
+}
+
 export async function queryDocuments(
   query: string,
   limit: number,
-  env: Env
+  env: Env,
+  options: QueryOptions = {}
 ): Promise<QueryResult[]> {
+  const { mode = 'vector', weights, filter } = options;
+
   try {
-    // Validate topK parameter to ensure it doesn't exceed MAX_VECTORS
-    const safeLimit = Math.min(limit, MAX_VECTORS);
-    // Generate embedding for the query
-    const queryEmbedding = await env.AI.run(EMBED_MODEL, {
-      text: [query],
-    });
+    // Validate topK parameter to ensure it doesn't exceed what Vectorize accepts
+    const { maxTopK } = getConfig(env).vectors;
+    const safeLimit = Math.min(limit, maxTopK);
+    const rerank = resolveRerank(options.rerank, safeLimit, maxTopK);
+
+    // Over-fetch when reranking so the reranker has more than the final results to choose from
+    const candidateLimit = rerank ? rerank.candidates : safeLimit;
+    let results: QueryResult[];
 
-    if (!queryEmbedding || !queryEmbedding.data || !Array.isArray(queryEmbedding.data[0])) {
-      throw new Error('Invalid query embedding response');
+    if (mode === 'keyword') {
+      results = await keywordSearch(query, candidateLimit, env, filter);
+    } else if (mode === 'hybrid') {
+      const [vectorResults, keywordResults] = await Promise.all([
+        vectorSearch(query, candidateLimit, env, filter),
+        keywordSearch(query, candidateLimit, env, filter),
+      ]);
+      results = fuseResults(vectorResults, keywordResults, weights, candidateLimit);
+    } else {
+      results = await vectorSearch(query, candidateLimit, env, filter);
     }
 
-    // Query the vector index with safe limit
-    const results = await env.DOC_INDEX.query(queryEmbedding.data[0], {
-      topK: safeLimit,
-    });
+    const finalResults = rerank ? await rerankResults(query, results, safeLimit, env) : results;
 
-    // Map results to QueryResult format
-    return results.map(match => ({
-      id: match.id,
-      score: match.score,
-      metadata: {
-        chunk: match.metadata?.chunk || '',
-        documentId: match.metadata?.documentId,
-        documentName: match.metadata?.documentName,
-        pageNumber: match.metadata?.pageNumber,
-        timestamp: match.metadata?.timestamp,
-        // Include fullChunk if it exists in the metadata
-        ...(match.metadata?.fullChunk ? { fullChunk: match.metadata.fullChunk } : {})
-      },
-    })) as QueryResult[];
+    // Least-recently-used eviction needs to know when each document was last retrieved; the
+    // writes need not hold up the answer
+    const recording = recordRetrieval(env, finalResults);
+    if (env.WAIT_UNTIL) {
+      env.WAIT_UNTIL(recording);
+    } else {
+      await recording;
+    }
+    return finalResults;
   } catch (error) {
     console.error('Query documents error:', error);
     return [];
   }
 }
 
+async function vectorSearch(query: string, safeLimit: number, env: Env, filter?: QueryFilter): Promise<QueryResult[]> {
+  // Generate embedding for the query
+  const [queryEmbedding] = await embedTexts([query], env);
+
+  // Query the vector index with safe limit, restricted to the current workspace
+  const matches = await filteredVectorQuery(queryEmbedding, safeLimit, filter || {}, env);
+
+  // Map results to QueryResult format
+  return matches.map(match => ({
+    id: match.id,
+    score: match.score,
+    retrievers: ['vector'],
+    metadata: {
+      chunk: match.metadata?.chunk || '',
+      documentId: match.metadata?.documentId,
+      documentName: match.metadata?.documentName,
+      pageNumber: match.metadata?.pageNumber,
+      timestamp: match.metadata?.timestamp,
+      // Include fullChunk if it exists in the metadata
+      ...(match.metadata?.fullChunk ? { fullChunk: match.metadata.fullChunk } : {})
+    },
+  })) as QueryResult[];
+}
+
+// Over-fetch factor for filters that can only be applied after the query
+const POST_FILTER_OVERFETCH = 4;
+
+/**
+ * Query with a metadata filter and the workspace, pushing the indexed fields down to Vectorize
+ * If the pushed-down query fails or matches nothing (e.g. the metadata index is missing),
+ * fall back to over-fetching and filtering the results here.
+ */
+async function filteredVectorQuery(
+  vector: number[],
+  safeLimit: number,
+  filter: QueryFilter,
+  env: Env
+): Promise<VectorizeMatch[]> {
+  const workspaceId = currentWorkspaceId(env);
+  const vectorizeFilter = toVectorizeFilter(filter, workspaceId);
+  const topK = Math.min(safeLimit * POST_FILTER_OVERFETCH, getConfig(env).vectors.maxTopK);
+  const matches = (match: VectorizeMatch) => inWorkspace(match.metadata, workspaceId) && matchesFilter(match.metadata, filter);
+
+  try {
+    const results = await env.DOC_INDEX.query(vector, { topK, filter: vectorizeFilter, returnMetadata: 'all' });
+    const filtered = results.matches.filter(matches);
+    if (filtered.length > 0) {
+      return filtered.slice(0, safeLimit);
+    }
+  } catch (error) {
+    console.warn('Vectorize filter pushdown failed, filtering after query:', error);
+  }
+
+  const results = await env.DOC_INDEX.query(vector, { topK, returnMetadata: 'all' });
+  return results.matches.filter(matches).slice(0, safeLimit);
+}
+
+/**
+ * Retrieve the chunks to use as RAG context, dropping results without any text
+ */
+export async function getContextResults(
+  query: string,
+  topK: number = 4,
+  env: Env,
+  options: QueryOptions = {}
+): Promise<QueryResult[]> {
+  // Ensure topK doesn't exceed what Vectorize accepts
+  const safeTopK = Math.min(topK, getConfig(env).vectors.maxTopK);
+  const results = await queryDocuments(query, safeTopK, env, options);
+
+  // Check for fullChunk in the metadata (added during storage)
+  return results.filter(result => (result.metadata.fullChunk || result.metadata.chunk || '').length > 0);
+}
+
+/**
+ * Retrieve context for several phrasings of one question and merge them by rank fusion
+ * When reranking is requested it runs once on the merged candidates, against the first query.
+ */
+export async function getContextResultsForQueries(
+  queries: string[],
+  topK: number,
+  env: Env,
+  options: QueryOptions = {}
+): Promise<QueryResult[]> {
+  if (queries.length <= 1) {
+    return getContextResults(queries[0] || '', topK, env, options);
+  }
+
+  const { maxTopK } = getConfig(env).vectors;
+  const safeTopK = Math.min(topK, maxTopK);
+  const rerank = resolveRerank(options.rerank, safeTopK, maxTopK);
+  const perQueryLimit = rerank ? rerank.candidates : safeTopK;
+
+  const resultLists = await Promise.all(
+    queries.map(query => getContextResults(query, perQueryLimit, env, { ...options, rerank: false }))
+  );
+  const merged = mergeResultLists(resultLists, perQueryLimit);
+
+  return rerank ? await rerankResults(queries[0], merged, safeTopK, env) : merged.slice(0, safeTopK);
+}
+
 export async function getDocumentContext(
   query: string,
   topK: number = 4,
-  env: Env
+  env: Env,
+  options: QueryOptions = {},
+  maxTokens: number = getConfig(env).chat.contextTokens / 2
 ): Promise<string> {
-  // Ensure topK doesn't exceed MAX_VECTORS
-  const safeTopK = Math.min(topK, MAX_VECTORS);
-  const results = await queryDocuments(query, safeTopK, env);
-  
-  if (results.length === 0) {
-    return '';
-  }
-  
-  // Extract the full chunks from results
-  const contextChunks = results
-    .map(result => {
-      // Check for fullChunk in the metadata (added during storage)
-      const metadata = result.metadata as any;
-      return metadata.fullChunk || metadata.chunk || '';
-    })
-    .filter(chunk => chunk.length > 0);
-  
-  return contextChunks.join('\n\n---\n\n');
+  const results = await getContextResults(query, topK, env, options);
+
+  // Extract the full chunks from results, skipping near-duplicates and anything past the budget
+  return packResults(dedupeResults(results), maxTokens).packed
+    .map(result => result.contextText ?? (result.metadata.fullChunk || result.metadata.chunk))
+    .join('\n\n---\n\n');
 }
 
 // Export utility function for getting vector usage status
@@ -246,12 +672,13 @@ export async function getVectorUsageStatus(env: Env): Promise<{
   percentageUsed: number;
 }> {
   const currentCount = await getVectorCount(env);
-  const availableQuota = MAX_VECTORS - currentCount;
-  const percentageUsed = (currentCount / MAX_VECTORS) * 100;
+  const maxCount = getVectorLimit(env);
+  const availableQuota = maxCount - currentCount;
+  const percentageUsed = (currentCount / maxCount) * 100;
 
   return {
     currentCount,
-    maxCount: MAX_VECTORS,
+    maxCount,
     availableQuota,
     percentageUsed: Math.round(percentageUsed * 100) / 100 // Round to 2 decimal places
   };
@@ -264,7 +691,7 @@ export async function deleteDocumentVectors(
 ): Promise<{ success: boolean; deletedCount: number; error?: string }> {
   try {
     // Get document metadata
-    const metadata = await env.DOC_METADATA.get(documentId, 'json') as any;
+    const metadata = await env.DOC_METADATA.get(workspaceKey(env, documentId), 'json') as any;
     
     if (!metadata || !metadata.vectorIds) {
       return { success: true, deletedCount: 0 };
@@ -285,8 +712,12 @@ export async function deleteDocumentVectors(
       reason: `delete_document_${documentId}`
     });
     
-    // Delete document metadata
-    await env.DOC_METADATA.delete(documentId);
+    // Delete document metadata and its keyword index entries
+    await env.DOC_METADATA.delete(workspaceKey(env, documentId));
+    await deleteDocumentChunks(env, documentId);
+    await removeIndexedDocument(env, documentId);
+    await invalidateDocumentDigests(env, documentId);
+    await deleteRetrievalStats(env, documentId);
     
     return {
       success: true,
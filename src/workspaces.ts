@@ -0,0 +1,212 @@
+/**
+ * Workspaces (notebooks) isolate documents, vectors, sessions and quota
+ *
+ * The workspace for a request comes from the X-Workspace-Id header and is carried on env
+ * (see withWorkspace). KV keys of non-default workspaces are prefixed with ws:<id>:, while the
+ * default workspace keeps the original unprefixed layout so existing data stays readable.
+ * Vectors share one index and are tagged with a workspaceId metadata field.
+ */
+
+import type { Env, Workspace } from './types';
+import { listAllKeys, listAllEntries, isInternalKey, INTERNAL_KEY_PREFIX } from './kv';
+import type { KeyEntry } from './kv';
+import { setVectorCounter } from './vector-counter';
+import { clearQueryLog } from './analytics';
+import { clearLexicalIndex } from './lexical-index';
+import { deleteSessionByKey } from './sessions';
+import { getConfig } from './config';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+
+const WORKSPACE_RECORD_PREFIX = '__workspace__:';
+const WORKSPACE_SCOPE_PREFIX = 'ws:';
+export const WORKSPACE_ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+// IDs that cannot be mistaken for an internal key or another workspace's key (see isReservedDocumentId)
+export const UNRESERVED_ID_PATTERN = new RegExp(`^(?!${INTERNAL_KEY_PREFIX}|${WORKSPACE_SCOPE_PREFIX})`);
+
+// Vectorize accepts at most 1000 IDs per deleteByIds call
+const DELETE_BATCH_SIZE = 1000;
+
+export const DEFAULT_WORKSPACE: Workspace = {
+  id: DEFAULT_WORKSPACE_ID,
+  name: 'Default',
+  createdAt: new Date(0).toISOString(),
+};
+
+export function isValidWorkspaceId(id: string): boolean {
+  return WORKSPACE_ID_PATTERN.test(id);
+}
+
+export function withWorkspace(env: Env, workspace: Workspace): Env {
+  return { ...env, WORKSPACE: workspace };
+}
+
+export function currentWorkspaceId(env: Env): string {
+  return env.WORKSPACE?.id || DEFAULT_WORKSPACE_ID;
+}
+
+// KV key prefix for the current workspace ('' for the default workspace)
+export function workspacePrefix(env: Env): string {
+  const workspaceId = currentWorkspaceId(env);
+  return workspaceId === DEFAULT_WORKSPACE_ID ? '' : `${WORKSPACE_SCOPE_PREFIX}${workspaceId}:`;
+}
+
+export function workspaceKey(env: Env, key: string): string {
+  return workspacePrefix(env) + key;
+}
+
+/**
+ * Whether a document ID would name something other than a document of the current workspace
+ * Default-workspace keys have no prefix, so "ws:<id>:<document>" reaches another workspace's
+ * record and "__..." an internal one.
+ */
+export function isReservedDocumentId(documentId: string): boolean {
+  return isInternalKey(documentId) || documentId.startsWith(WORKSPACE_SCOPE_PREFIX);
+}
+
+/**
+ * List keys of the current workspace (with prefix), returning names without the workspace prefix
+ * Lists DOC_METADATA unless another namespace is given.
+ */
+export async function listWorkspaceKeys(
+  env: Env,
+  prefix: string = '',
+  namespace: KVNamespace = env.DOC_METADATA
+): Promise<string[]> {
+  return (await listWorkspaceEntries(env, prefix, namespace)).map(entry => entry.name);
+}
+
+/**
+ * Like listWorkspaceKeys, with the list metadata of each key
+ */
+export async function listWorkspaceEntries<Metadata = unknown>(
+  env: Env,
+  prefix: string = '',
+  namespace: KVNamespace = env.DOC_METADATA
+): Promise<KeyEntry<Metadata>[]> {
+  const scope = workspacePrefix(env);
+  const entries = await listAllEntries<Metadata>(namespace, scope + prefix);
+
+  return entries
+    // Unprefixed listing of the default workspace also returns every other workspace's keys
+    .filter(entry => scope !== '' || !entry.name.startsWith(WORKSPACE_SCOPE_PREFIX))
+    .map(entry => ({ ...entry, name: entry.name.slice(scope.length) }));
+}
+
+// Vectors ingested before workspaces existed have no workspaceId and belong to the default workspace
+export function inWorkspace(metadata: Record<string, any> | undefined, workspaceId: string): boolean {
+  return (metadata?.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspaceId;
+}
+
+export async function getWorkspace(env: Env, workspaceId: string): Promise<Workspace | null> {
+  const record = await env.DOC_METADATA.get(WORKSPACE_RECORD_PREFIX + workspaceId, 'json') as Workspace | null;
+  if (!record && workspaceId === DEFAULT_WORKSPACE_ID) {
+    return DEFAULT_WORKSPACE;
+  }
+  return record;
+}
+
+/**
+ * Resolve the workspace named by the request header, or null if it does not exist
+ */
+export async function resolveWorkspace(request: Request, env: Env): Promise<Workspace | null> {
+  const workspaceId = request.headers.get(WORKSPACE_HEADER) || DEFAULT_WORKSPACE_ID;
+  if (!isValidWorkspaceId(workspaceId)) {
+    return null;
+  }
+  return await getWorkspace(env, workspaceId);
+}
+
+export async function listWorkspaces(env: Env): Promise<Workspace[]> {
+  const keys = await listAllKeys(env.DOC_METADATA, WORKSPACE_RECORD_PREFIX);
+  const records = await Promise.all(
+    keys.map(key => env.DOC_METADATA.get(key, 'json') as Promise<Workspace | null>)
+  );
+  const workspaces = records.filter((record): record is Workspace => record !== null);
+
+  if (!workspaces.some(workspace => workspace.id === DEFAULT_WORKSPACE_ID)) {
+    workspaces.unshift(DEFAULT_WORKSPACE);
+  }
+  return workspaces;
+}
+
+export async function createWorkspace(
+  env: Env,
+  workspace: Omit<Workspace, 'createdAt'>
+): Promise<{ success: boolean; workspace?: Workspace; error?: string; status?: 400 | 409 }> {
+  if (await env.DOC_METADATA.get(WORKSPACE_RECORD_PREFIX + workspace.id)) {
+    return { success: false, error: `Workspace ${workspace.id} already exists`, status: 409 };
+  }
+
+  // Workspaces share one index, so their quotas together must fit in it
+  const { maxVectors, indexMaxVectors } = getConfig(env).vectors;
+  const allocated = (await listWorkspaces(env))
+    .reduce((sum, existing) => sum + (existing.vectorLimit ?? maxVectors), 0);
+  const requested = workspace.vectorLimit ?? maxVectors;
+  if (allocated + requested > indexMaxVectors) {
+    return {
+      success: false,
+      error: `A quota of ${requested} vectors exceeds the index capacity: ${allocated} of ${indexMaxVectors} are already allocated to workspaces`,
+      status: 400,
+    };
+  }
+
+  const record: Workspace = { ...workspace, createdAt: new Date().toISOString() };
+  await env.DOC_METADATA.put(WORKSPACE_RECORD_PREFIX + workspace.id, JSON.stringify(record));
+  return { success: true, workspace: record };
+}
+
+/**
+ * Delete a workspace with all of its vectors, KV entries and sessions
+ */
+export async function deleteWorkspace(
+  env: Env,
+  workspaceId: string
+): Promise<{
+  success: boolean;
+  deletedDocuments: number;
+  deletedVectors: number;
+  deletedSessions?: number;
+  error?: string;
+  status?: 400 | 404;
+}> {
+  if (workspaceId === DEFAULT_WORKSPACE_ID) {
+    return { success: false, deletedDocuments: 0, deletedVectors: 0, error: 'The default workspace cannot be deleted', status: 400 };
+  }
+
+  const workspace = await getWorkspace(env, workspaceId);
+  if (!workspace) {
+    return { success: false, deletedDocuments: 0, deletedVectors: 0, error: `Workspace ${workspaceId} not found`, status: 404 };
+  }
+
+  const scopedEnv = withWorkspace(env, workspace);
+  const scope = workspacePrefix(scopedEnv);
+  const keys = await listWorkspaceKeys(scopedEnv);
+  const documentIds = keys.filter(key => !isInternalKey(key));
+
+  const vectorIds: string[] = [];
+  for (const documentId of documentIds) {
+    const record = await env.DOC_METADATA.get(scope + documentId, 'json') as { vectorIds?: string[] } | null;
+    vectorIds.push(...(record?.vectorIds || []));
+  }
+
+  for (let i = 0; i < vectorIds.length; i += DELETE_BATCH_SIZE) {
+    await env.DOC_INDEX.deleteByIds(vectorIds.slice(i, i + DELETE_BATCH_SIZE));
+  }
+
+  await Promise.all(keys.map(key => env.DOC_METADATA.delete(scope + key)));
+  const sessionIds = await listWorkspaceKeys(scopedEnv, '', env.CHAT_HISTORY);
+  await Promise.all(sessionIds.map(sessionId => deleteSessionByKey(env, scope + sessionId)));
+  await setVectorCounter(env, workspaceId, 0);
+  await clearQueryLog(env, workspaceId);
+  await clearLexicalIndex(env, workspaceId);
+  await env.DOC_METADATA.delete(WORKSPACE_RECORD_PREFIX + workspaceId);
+
+  return {
+    success: true,
+    deletedDocuments: documentIds.length,
+    deletedVectors: vectorIds.length,
+    deletedSessions: sessionIds.length,
+  };
+}
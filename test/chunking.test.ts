@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { chunkDocument, chunkText, chunkSlidingWindow, chunkMarkdown, EMBED_MAX_TOKENS } from '../src/chunking';
+import { estimateTokens } from '../src/tokenizer';
+
+describe('chunkText', () => {
+  it('packs whole sentences up to the size limit', () => {
+    const chunks = chunkText('One two. Three four. Five six.', 21);
+
+    expect(chunks).toEqual(['One two. Three four.', 'Five six.']);
+  });
+
+  it('keeps text without terminal punctuation', () => {
+    expect(chunkText('No full stop here', 100)).toEqual(['No full stop here']);
+  });
+
+  it('splits a sentence longer than the limit on whitespace', () => {
+    const chunks = chunkText('alpha beta gamma delta epsilon zeta eta theta.', 20);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.length <= 20)).toBe(true);
+    expect(chunks.join(' ')).toBe('alpha beta gamma delta epsilon zeta eta theta.');
+  });
+
+  it('hard-splits a word with no whitespace that is longer than the limit', () => {
+    const word = 'x'.repeat(95);
+
+    const chunks = chunkText(`Short. ${word}`, 20);
+
+    expect(chunks.every(chunk => chunk.length <= 20)).toBe(true);
+    expect(chunks.join('')).toBe(`Short.${word}`);
+  });
+
+  it('does not split a surrogate pair', () => {
+    const chunks = chunkText('😀'.repeat(10), 6);
+
+    expect(chunks.join('')).toBe('😀'.repeat(10));
+    expect(chunks.every(chunk => !/[\uD800-\uDBFF]$/.test(chunk))).toBe(true);
+  });
+});
+
+describe('chunkSlidingWindow', () => {
+  it('repeats trailing words as overlap', () => {
+    const chunks = chunkSlidingWindow('a1 b2 c3 d4 e5 f6 g7 h8', 12, 6);
+
+    expect(chunks).toEqual(['a1 b2 c3 d4', 'c3 d4 e5 f6', 'e5 f6 g7 h8']);
+  });
+
+  it('keeps a word longer than the window in window-sized pieces', () => {
+    const chunks = chunkSlidingWindow(`start ${'y'.repeat(30)} end`, 12, 6);
+
+    expect(chunks).toEqual(['start', 'y'.repeat(11), 'y'.repeat(11), 'y'.repeat(8), 'end']);
+  });
+});
+
+describe('chunkDocument', () => {
+  it('keeps token chunks within the requested budget', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+
+    const chunks = chunkDocument(text, { strategy: 'token', maxTokens: 50, overlap: 10 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => estimateTokens(chunk.text) <= 50)).toBe(true);
+  });
+
+  it('repeats the last sentences of a token chunk at the start of the next', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `Item ${i} ends.`).join(' ');
+
+    const chunks = chunkDocument(text, { strategy: 'token', maxTokens: 20, overlap: 8 });
+
+    expect(chunks[0].text).toBe('Item 0 ends. Item 1 ends. Item 2 ends. Item 3 ends. Item 4 ends.');
+    expect(chunks[1].text.startsWith('Item 3 ends. Item 4 ends. Item 5 ends.')).toBe(true);
+  });
+
+  it('carries overlap into and across the pieces of an oversized sentence', () => {
+    const words = Array.from({ length: 60 }, (_, i) => `w${i}`);
+
+    const chunks = chunkDocument(`Intro here. ${words.join(' ')}.`, { strategy: 'token', maxTokens: 20, overlap: 4 });
+
+    expect(chunks[0].text).toBe(`Intro here. ${words.slice(0, 17).join(' ')}`);
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1].text.split(' ');
+      expect(chunks[i].text.startsWith(previous.slice(-4).join(' '))).toBe(true);
+    }
+  });
+
+  it('caps token chunks below the embedding model limit', () => {
+    const text = 'word '.repeat(2000);
+
+    const chunks = chunkDocument(text, { strategy: 'token', maxTokens: 10_000 });
+
+    expect(EMBED_MAX_TOKENS).toBeLessThan(512);
+    expect(chunks.every(chunk => estimateTokens(chunk.text) <= EMBED_MAX_TOKENS)).toBe(true);
+  });
+
+  it('hard-splits a long run without whitespace into token-sized pieces', () => {
+    const chunks = chunkDocument('z'.repeat(6000), { strategy: 'token', maxTokens: 100 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => estimateTokens(chunk.text) <= 100)).toBe(true);
+    expect(chunks.map(chunk => chunk.text).join('')).toBe('z'.repeat(6000));
+  });
+});
+
+describe('chunkMarkdown', () => {
+  it('prefixes chunks with their heading path', () => {
+    const chunks = chunkMarkdown('# Guide\n\n## Setup\n\nInstall it.\n\n## Usage\n\nRun it.', 200);
+
+    expect(chunks).toEqual([
+      { text: 'Guide > Setup\n\nInstall it.', heading: 'Guide > Setup' },
+      { text: 'Guide > Usage\n\nRun it.', heading: 'Guide > Usage' },
+    ]);
+  });
+
+  it('keeps a fenced code block in one chunk', () => {
+    const code = '```\nconst a = 1;\n\nconst b = 2;\n```';
+
+    const chunks = chunkMarkdown(`Intro.\n\n${code}`, 200);
+
+    expect(chunks).toEqual([{ text: `Intro.\n\n${code}`, heading: undefined }]);
+  });
+
+  it('splits an oversized line without exceeding the limit', () => {
+    const chunks = chunkMarkdown('w'.repeat(250), 100);
+
+    expect(chunks.every(chunk => chunk.text.length <= 100)).toBe(true);
+    expect(chunks.map(chunk => chunk.text).join('')).toBe('w'.repeat(250));
+  });
+});
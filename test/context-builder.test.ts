@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { assembleContext } from '../src/context-builder';
+import type { QueryResult } from '../src/types';
+import { testEnv } from './helpers';
+
+function result(id: string, text: string): QueryResult {
+  return { id, score: 1, metadata: { chunk: text, fullChunk: text } };
+}
+
+describe('assembleContext', () => {
+  it('budgets against CHAT_CONTEXT_TOKENS by default', async () => {
+    const { budget } = await assembleContext('system', 'question', [], [], 256, testEnv({ CHAT_CONTEXT_TOKENS: '4096' }));
+
+    expect(budget.total).toBe(4096);
+  });
+
+  it('accepts a smaller window but never a larger one than the model has', async () => {
+    const env = testEnv({ CHAT_CONTEXT_TOKENS: '4096' });
+
+    const smaller = await assembleContext('system', 'question', [], [], 256, env, { maxContextTokens: 1024, neighbors: 0 });
+    const larger = await assembleContext('system', 'question', [], [], 256, env, { maxContextTokens: 100_000, neighbors: 0 });
+
+    expect(smaller.budget.total).toBe(1024);
+    expect(larger.budget.total).toBe(4096);
+  });
+
+  it('does not pack more passages than the clamped window holds', async () => {
+    const env = testEnv({ CHAT_CONTEXT_TOKENS: '1024', CHAT_MAX_TOKENS: '256' });
+    const passages = Array.from({ length: 20 }, (_, i) => result(`r${i}`, `passage ${i} `.repeat(60)));
+
+    const { results, budget } = await assembleContext('system', 'question', [], passages, 256, env, { maxContextTokens: 100_000, neighbors: 0 });
+
+    expect(results.length).toBeLessThan(passages.length);
+    expect(budget.answer + budget.system + budget.question + budget.context).toBeLessThanOrEqual(1024);
+  });
+});
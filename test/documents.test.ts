@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { listDocuments, putDocumentRecord } from '../src/documents';
+import type { DocumentListEntry } from '../src/documents';
+import type { Env, DocumentRecord } from '../src/types';
+import { MemoryKV, testEnv } from './helpers';
+
+function record(name: string, uploadedAt: string, chunksCount: number, type = 'pdf'): DocumentRecord {
+  return { name, type, chunksCount, chunkStrategy: 'sentence', uploadedAt, vectorIds: [] };
+}
+
+async function allPages(env: Env, options: Parameters<typeof listDocuments>[1]): Promise<DocumentListEntry[][]> {
+  const pages: DocumentListEntry[][] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await listDocuments(env, { ...options, cursor });
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+    pages.push(result.page.documents);
+    cursor = result.page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+}
+
+describe('listDocuments cursor', () => {
+  let env: Env;
+
+  beforeEach(async () => {
+    env = testEnv({ DOC_METADATA: new MemoryKV(2) as unknown as KVNamespace });
+    await putDocumentRecord(env, 'a', record('Alpha', '2024-01-01T00:00:00Z', 3));
+    await putDocumentRecord(env, 'b', record('Beta', '2024-01-02T00:00:00Z', 1, 'docx'));
+    await putDocumentRecord(env, 'c', record('Gamma', '2024-01-02T00:00:00Z', 3));
+    await putDocumentRecord(env, 'd', record('Delta', '2024-01-04T00:00:00Z', 2));
+    await putDocumentRecord(env, 'e', record('Epsilon', '2024-01-05T00:00:00Z', 5));
+  });
+
+  it('pages through every document once, in order', async () => {
+    const pages = await allPages(env, { sort: 'uploadedAt', limit: 2 });
+
+    expect(pages.map(page => page.map(document => document.id))).toEqual([['e', 'd'], ['b', 'c'], ['a']]);
+  });
+
+  it('breaks ties on the sort field by ID', async () => {
+    const pages = await allPages(env, { sort: 'chunksCount', order: 'asc', limit: 1 });
+
+    expect(pages.flat().map(document => document.id)).toEqual(['b', 'd', 'a', 'c', 'e']);
+  });
+
+  it('does not shift later pages when documents are added or deleted between requests', async () => {
+    const first = await listDocuments(env, { sort: 'name', limit: 2 });
+    expect(first.ok && first.page.documents.map(document => document.id)).toEqual(['a', 'b']);
+
+    await env.DOC_METADATA.delete('a');
+    await putDocumentRecord(env, 'f', record('Aardvark', '2024-01-06T00:00:00Z', 1));
+
+    const second = await listDocuments(env, { sort: 'name', limit: 2, cursor: first.ok ? first.page.nextCursor! : undefined });
+    expect(second.ok && second.page.documents.map(document => document.id)).toEqual(['d', 'e']);
+  });
+
+  it('reports the total of every match and no cursor on the last page', async () => {
+    const result = await listDocuments(env, { type: 'pdf', limit: 10 });
+
+    expect(result.ok && result.page.total).toBe(4);
+    expect(result.ok && result.page.nextCursor).toBeNull();
+  });
+
+  it('rejects cursors that are malformed or from another sort order', async () => {
+    const first = await listDocuments(env, { sort: 'name', limit: 2 });
+    const cursor = first.ok ? first.page.nextCursor! : '';
+
+    expect(await listDocuments(env, { sort: 'uploadedAt', cursor })).toEqual({ ok: false, status: 400, error: 'Invalid cursor' });
+    expect(await listDocuments(env, { cursor: 'not a cursor' })).toEqual({ ok: false, status: 400, error: 'Invalid cursor' });
+  });
+
+  it('reads records stored without list metadata', async () => {
+    await env.DOC_METADATA.put('legacy', JSON.stringify(record('Legacy', '2023-12-31T00:00:00Z', 1)));
+
+    const result = await listDocuments(env, { name: 'legacy' });
+    expect(result.ok && result.page.documents).toEqual([
+      { id: 'legacy', name: 'Legacy', type: 'pdf', chunksCount: 1, chunkStrategy: 'sentence', uploadedAt: '2023-12-31T00:00:00Z' },
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import type { Env } from '../src/types';
+
+/**
+ * In-memory stand-in for a KV namespace: get, put (with list metadata), delete and paginated list
+ */
+export class MemoryKV {
+  readonly entries = new Map<string, { value: string; metadata?: unknown }>();
+
+  constructor(private readonly pageSize = 1000) {}
+
+  async get(key: string, type?: 'text' | 'json'): Promise<unknown> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    return type === 'json' ? JSON.parse(entry.value) : entry.value;
+  }
+
+  async put(key: string, value: string, options: { metadata?: unknown } = {}): Promise<void> {
+    this.entries.set(key, { value, metadata: options.metadata });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options: { prefix?: string; cursor?: string } = {}) {
+    const names = [...this.entries.keys()].filter(name => name.startsWith(options.prefix || '')).sort();
+    const start = options.cursor ? parseInt(options.cursor, 10) : 0;
+    const end = start + this.pageSize;
+    return {
+      keys: names.slice(start, end).map(name => ({ name, metadata: this.entries.get(name)!.metadata })),
+      list_complete: end >= names.length,
+      cursor: end >= names.length ? undefined : String(end),
+    };
+  }
+}
+
+// An Env with in-memory KV namespaces; bindings a test needs can be passed in
+export function testEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    DOC_METADATA: new MemoryKV() as unknown as KVNamespace,
+    CHAT_HISTORY: new MemoryKV() as unknown as KVNamespace,
+    ...overrides,
+  } as Env;
+}
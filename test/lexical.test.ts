@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeTerms, termFrequencies, bm25Score, keywordSearch, fuseResults, mergeResultLists } from '../src/lexical';
+import { putDocumentChunks } from '../src/chunk-store';
+import type { DocumentChunks } from '../src/chunk-store';
+import type { QueryResult } from '../src/types';
+import { testEnv } from './helpers';
+
+function result(id: string, score: number, extra: Partial<QueryResult> = {}): QueryResult {
+  return { id, score, metadata: { chunk: id }, ...extra };
+}
+
+function document(documentId: string, documentType: string, texts: string[]): DocumentChunks {
+  return {
+    documentId,
+    documentName: `${documentId}.txt`,
+    documentType,
+    timestamp: '2024-01-01T00:00:00Z',
+    metadata: {},
+    chunks: texts.map((text, index) => ({
+      id: `${documentId}-${index}`,
+      text,
+      chunkIndex: index,
+      textIndex: 0,
+      ...termFrequencies(text),
+    })),
+  };
+}
+
+describe('tokenizeTerms', () => {
+  it('lowercases and drops stopwords and single letters', () => {
+    expect(tokenizeTerms('What is the Retention Policy of a file?')).toEqual(['retention', 'policy', 'file']);
+  });
+
+  it('indexes identifiers whole as well as in parts', () => {
+    expect(tokenizeTerms('See POL-2024-17 and config.yaml')).toEqual(['see', 'pol-2024-17', 'pol', '2024', '17', 'config.yaml', 'config', 'yaml']);
+  });
+
+  it('keeps single digits and non-Latin letters', () => {
+    expect(tokenizeTerms('Step 3: Überprüfung')).toEqual(['step', '3', 'überprüfung']);
+  });
+});
+
+describe('termFrequencies', () => {
+  it('counts each term and the total number of terms', () => {
+    expect(termFrequencies('cat dog cat')).toEqual({ terms: { cat: 2, dog: 1 }, length: 3 });
+  });
+});
+
+describe('bm25Score', () => {
+  it('favours rarer terms', () => {
+    expect(bm25Score(1, 1, 100, 10, 10)).toBeGreaterThan(bm25Score(1, 50, 100, 10, 10));
+  });
+
+  it('grows with frequency but saturates', () => {
+    const once = bm25Score(1, 5, 100, 10, 10);
+    const twice = bm25Score(2, 5, 100, 10, 10);
+    const many = bm25Score(100, 5, 100, 10, 10);
+
+    expect(twice).toBeGreaterThan(once);
+    expect(many).toBeLessThan(once * (1.2 + 1));
+  });
+
+  it('favours shorter chunks', () => {
+    expect(bm25Score(1, 5, 100, 5, 10)).toBeGreaterThan(bm25Score(1, 5, 100, 20, 10));
+  });
+});
+
+describe('keywordSearch without the lexical index', () => {
+  it('scans the chunk store and ranks chunks by BM25', async () => {
+    const env = testEnv();
+    await putDocumentChunks(env, document('policy', 'pdf', ['Retention policy for invoices', 'Holiday schedule']));
+    await putDocumentChunks(env, document('notes', 'md', ['Invoices are kept for seven years under the retention policy', 'Nothing here']));
+
+    const results = await keywordSearch('retention of invoices', 10, env);
+
+    expect(results.map(match => match.id)).toEqual(['policy-0', 'notes-0']);
+    expect(results[0]).toMatchObject({
+      retrievers: ['keyword'],
+      metadata: { documentId: 'policy', documentName: 'policy.txt', documentType: 'pdf', fullChunk: 'Retention policy for invoices' },
+    });
+    expect(results[0].keywordScore).toBe(results[0].score);
+  });
+
+  it('applies the filter after scoring', async () => {
+    const env = testEnv();
+    await putDocumentChunks(env, document('policy', 'pdf', ['Retention policy for invoices']));
+    await putDocumentChunks(env, document('notes', 'md', ['Invoices retention']));
+
+    const results = await keywordSearch('retention', 10, env, { documentType: 'md' });
+
+    expect(results.map(match => match.id)).toEqual(['notes-0']);
+  });
+
+  it('returns nothing for queries made only of stopwords', async () => {
+    expect(await keywordSearch('what is the', 10, testEnv())).toEqual([]);
+  });
+});
+
+describe('fuseResults', () => {
+  it('ranks chunks found by both retrievers first and keeps each retriever\'s score', () => {
+    const fused = fuseResults(
+      [result('a', 0.9), result('b', 0.8)],
+      [result('b', 4, { keywordScore: 4, retrievers: ['keyword'] }), result('c', 3, { keywordScore: 3, retrievers: ['keyword'] })],
+      {},
+      10
+    );
+
+    expect(fused.map(match => match.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0]).toMatchObject({ vectorScore: 0.8, keywordScore: 4, retrievers: ['vector', 'keyword'] });
+  });
+
+  it('applies the weights and the limit', () => {
+    const fused = fuseResults([result('a', 0.9)], [result('c', 3, { retrievers: ['keyword'] })], { vector: 0.5, keyword: 2 }, 1);
+
+    expect(fused.map(match => match.id)).toEqual(['c']);
+  });
+});
+
+describe('mergeResultLists', () => {
+  it('sums ranks across lists and keeps the best scores', () => {
+    const merged = mergeResultLists([
+      [result('a', 0.7, { retrievers: ['vector'] }), result('b', 0.6, { retrievers: ['vector'] })],
+      [result('b', 0.9, { retrievers: ['vector'] })],
+    ], 10);
+
+    expect(merged.map(match => match.id)).toEqual(['b', 'a']);
+    expect(merged[0].vectorScore).toBe(0.9);
+  });
+});
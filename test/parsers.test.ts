@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { zipSync, strToU8 } from 'fflate';
+import { detectDocumentType, parseDocument } from '../src/parsers';
+import { parseHtml } from '../src/parsers/html';
+import { parseMarkdown } from '../src/parsers/markdown';
+import { parseDocx } from '../src/parsers/docx';
+
+const PDF_BYTES = strToU8('%PDF-1.7\n');
+const ZIP_BYTES = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0]);
+const TEXT_BYTES = strToU8('# Title\n');
+
+function docx(body: string): Uint8Array {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?><w:document><w:body>${body}</w:body></w:document>`;
+  return zipSync({ 'word/document.xml': strToU8(xml) });
+}
+
+function paragraph(text: string, extra = '', style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}<w:r>${extra}<w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+describe('detectDocumentType', () => {
+  it('trusts PDF magic bytes over the name and MIME type', () => {
+    expect(detectDocumentType(PDF_BYTES, 'notes.txt', 'text/plain')).toBe('pdf');
+  });
+
+  it('accepts zip containers only when they are named or typed as DOCX', () => {
+    expect(detectDocumentType(ZIP_BYTES, 'report.docx')).toBe('docx');
+    expect(detectDocumentType(ZIP_BYTES, 'upload', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe('docx');
+    expect(detectDocumentType(ZIP_BYTES, 'archive.zip', 'application/zip')).toBeNull();
+  });
+
+  it('prefers the extension over a generic text MIME type', () => {
+    expect(detectDocumentType(TEXT_BYTES, 'README.md', 'text/plain')).toBe('markdown');
+    expect(detectDocumentType(TEXT_BYTES, 'page.HTM')).toBe('html');
+  });
+
+  it('falls back to the MIME type, ignoring parameters', () => {
+    expect(detectDocumentType(TEXT_BYTES, 'upload', 'text/html; charset=utf-8')).toBe('html');
+  });
+
+  it('does not claim PDF or DOCX without the magic bytes', () => {
+    expect(detectDocumentType(TEXT_BYTES, 'fake.pdf')).toBeNull();
+    expect(detectDocumentType(TEXT_BYTES, 'fake.docx', 'application/pdf')).toBeNull();
+    expect(detectDocumentType(TEXT_BYTES, 'image.png', 'image/png')).toBeNull();
+  });
+});
+
+describe('parseHtml', () => {
+  it('splits sections at headings and drops scripts, styles and comments', () => {
+    const parsed = parseHtml(
+      '<html><head><title>x</title></head><body><p>Intro</p><!-- hidden -->' +
+      '<script>alert(1)</script><h1>First</h1><p>One</p><h2 class="x">Second</h2><p>Two</p></body></html>'
+    );
+
+    expect(parsed.documentType).toBe('html');
+    expect(parsed.sections.map(section => section.heading)).toEqual([undefined, 'First', 'Second']);
+    expect(parsed.sections[0].text.trim()).toBe('Intro');
+    expect(parsed.sections[1].text).not.toContain('alert');
+    expect(parsed.sections[2].text.trim()).toBe('Second\nTwo');
+  });
+
+  it('keeps line structure for breaks, list items and table cells', () => {
+    const [section] = parseHtml('<p>a<br>b</p><ul><li>one</li><li>two</li></ul><table><tr><td>x</td><td>y</td></tr></table>').sections;
+
+    expect(section.text).toBe('a\nb\n\n- one\n\n- two\n\nx\ty\n\n');
+  });
+
+  it('decodes named and numeric entities', () => {
+    const [section] = parseHtml('<p>Fish &amp; chips &lt;3 &#8364;5 &#x263A; &copy;</p>').sections;
+
+    expect(section.text.trim()).toBe('Fish & chips <3 €5 ☺ &copy;');
+  });
+
+  it('leaves numeric entities that are not characters unchanged', () => {
+    const [section] = parseHtml('<p>&#99999999; &#x110000; &#xD800; &#65;</p>').sections;
+
+    expect(section.text.trim()).toBe('&#99999999; &#x110000; &#xD800; A');
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits at headings and keeps heading lines in the text', () => {
+    const parsed = parseMarkdown('Preamble\n# One\nfirst\n## Two ##\nsecond\n');
+
+    expect(parsed.sections.map(section => section.heading)).toEqual([undefined, 'One', 'Two']);
+    expect(parsed.sections[1].text).toBe('# One\nfirst\n');
+    expect(parsed.sections[2].text).toBe('## Two ##\nsecond\n\n');
+  });
+
+  it('ignores headings inside fenced code blocks', () => {
+    const parsed = parseMarkdown('# Setup\n```sh\n# not a heading\n```\n~~~\n## nor this\n~~~\n');
+
+    expect(parsed.sections.map(section => section.heading)).toEqual([undefined, 'Setup']);
+    expect(parsed.sections[1].text).toContain('# not a heading');
+  });
+
+  it('handles Windows line endings', () => {
+    expect(parseMarkdown('# A\r\ntext\r\n').sections[1]).toEqual({ heading: 'A', text: '# A\ntext\n\n' });
+  });
+});
+
+describe('parseDocx', () => {
+  it('numbers pages from the breaks Word recorded at last render', () => {
+    const parsed = parseDocx(docx(
+      paragraph('Overview', '', 'Heading1') +
+      paragraph('Page one') +
+      paragraph('Page two', '<w:lastRenderedPageBreak/>') +
+      paragraph('Still two', '<w:br w:type="page"/>')
+    ));
+
+    expect(parsed.pageCount).toBe(2);
+    expect(parsed.sections).toEqual([
+      { text: 'Overview\nPage one\n', pageNumber: 1, heading: 'Overview' },
+      { text: 'Page two\nStill two\n', pageNumber: 2, heading: 'Overview' },
+    ]);
+  });
+
+  it('falls back to explicit page breaks', () => {
+    const parsed = parseDocx(docx(paragraph('One') + paragraph('Two', '<w:br w:type="page"/>') + paragraph('Three')));
+
+    expect(parsed.pageCount).toBe(2);
+    expect(parsed.sections.map(section => [section.pageNumber, section.text])).toEqual([
+      [1, 'One\n'],
+      [2, 'Two\nThree\n'],
+    ]);
+  });
+
+  it('decodes entities and keeps tabs and line breaks', () => {
+    const parsed = parseDocx(docx('<w:p><w:r><w:t>R&amp;D</w:t><w:tab/><w:t>plan</w:t><w:br/><w:t>next</w:t></w:r></w:p>'));
+
+    expect(parsed.sections[0].text).toBe('R&D\tplan\nnext\n');
+  });
+
+  it('rejects archives without a document part', () => {
+    expect(() => parseDocx(zipSync({ 'other.xml': strToU8('<x/>') }))).toThrow('word/document.xml not found');
+  });
+});
+
+describe('parseDocument', () => {
+  it('trims sections, drops empty ones and strips a byte order mark', async () => {
+    const parsed = await parseDocument(strToU8('\uFEFF# A\n\n# B\ntext\n'), 'markdown');
+
+    expect(parsed.sections).toEqual([
+      { text: '# A', heading: 'A' },
+      { text: '# B\ntext', heading: 'B' },
+    ]);
+  });
+
+  it('keeps plain text as one section', async () => {
+    expect(await parseDocument(strToU8('just text'), 'text')).toEqual({ documentType: 'text', sections: [{ text: 'just text' }] });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { collectRAGStream } from '../src/rag';
+
+// A stream delivering the given strings as separate chunks, as a network read would
+function streamOf(chunks: string[]): ReadableStream {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+const source = { index: 1, vectorId: 'v1', documentName: 'Policy', score: 0.9, snippet: 'Invoices are kept' };
+
+describe('collectRAGStream', () => {
+  it('gathers the query, sources, answer tokens and citations', async () => {
+    const collected = await collectRAGStream(streamOf([
+      `event: query\ndata: ${JSON.stringify({ original: 'q', standalone: 'q', expansions: [] })}\n\n`,
+      `event: sources\ndata: ${JSON.stringify({ sources: [source] })}\n\n`,
+      'data: {"response":"Seven "}\n\n',
+      'data: {"response":"years [1]"}\n\n',
+      `event: citations\ndata: ${JSON.stringify({ citations: [{ marker: 1, occurrences: 1, source }], invalidMarkers: [4] })}\n\n`,
+      'data: [DONE]\n\n',
+    ]));
+
+    expect(collected).toEqual({
+      query: { original: 'q', standalone: 'q', expansions: [] },
+      answer: 'Seven years [1]',
+      sources: [source],
+      citations: [{ marker: 1, occurrences: 1, source }],
+      invalidMarkers: [4],
+    });
+  });
+
+  it('joins events split across chunks', async () => {
+    const collected = await collectRAGStream(streamOf(['data: {"resp', 'onse":"Hel', 'lo"}\n', '\ndata: {"response":"!"}']));
+
+    expect(collected.answer).toBe('Hello!');
+  });
+
+  it('reports errors and ignores malformed events', async () => {
+    const collected = await collectRAGStream(streamOf([
+      'data: not json\n\n',
+      'data: {"response":"Partial"}\n\n',
+      'data: {"error":"AI request timed out"}\n\n',
+    ]));
+
+    expect(collected).toMatchObject({ answer: 'Partial', error: 'AI request timed out', sources: [], citations: [] });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { checkRateLimit } from '../src/rate-limit';
+import { RateLimiter } from '../src/durable-objects/rate-limiter';
+import { testEnv } from './helpers';
+
+// A RATE_LIMITER namespace with one in-memory RateLimiter per name
+function limiterNamespace(): DurableObjectNamespace {
+  const objects = new Map<string, RateLimiter>();
+  return {
+    idFromName: (name: string) => name,
+    get: (name: string) => {
+      if (!objects.has(name)) {
+        const storage = new Map<string, unknown>();
+        const state = {
+          storage: {
+            get: async (key: string) => storage.get(key),
+            put: async (key: string, value: unknown) => void storage.set(key, value),
+          },
+        };
+        objects.set(name, new RateLimiter(state as unknown as DurableObjectState));
+      }
+      const limiter = objects.get(name)!;
+      return { fetch: (url: string, init?: RequestInit) => limiter.fetch(new Request(url, init)) };
+    },
+  } as unknown as DurableObjectNamespace;
+}
+
+describe('checkRateLimit', () => {
+  it('allows requests up to the limit, then denies with Retry-After', async () => {
+    const env = testEnv({ RATE_LIMITER: limiterNamespace() });
+    const rule = { limit: 2, windowSeconds: 60 };
+
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await checkRateLimit(env, 'query', 'key-1', rule));
+    }
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, false]);
+    expect(results[2].retryAfterSeconds).toBeGreaterThan(0);
+    expect((await checkRateLimit(env, 'query', 'key-2', rule)).allowed).toBe(true);
+  });
+
+  it('blocks every request when the limit is 0', async () => {
+    const env = testEnv({ RATE_LIMITER: limiterNamespace() });
+
+    const result = await checkRateLimit(env, 'chat', 'key-1', { limit: 0, windowSeconds: 60 });
+
+    expect(result).toMatchObject({ allowed: false, limit: 0, remaining: 0 });
+  });
+
+  it('denies rather than failing open when the limiter rejects the rule', async () => {
+    const env = testEnv({ RATE_LIMITER: limiterNamespace() });
+
+    const result = await checkRateLimit(env, 'embed', 'key-1', { limit: -1, windowSeconds: 60 });
+
+    expect(result.allowed).toBe(false);
+  });
+
+  it('lets requests through when the limiter cannot be reached', async () => {
+    const unreachable = {
+      idFromName: (name: string) => name,
+      get: () => ({ fetch: async () => { throw new Error('unavailable'); } }),
+    } as unknown as DurableObjectNamespace;
+
+    const result = await checkRateLimit(testEnv({ RATE_LIMITER: unreachable }), 'embed', 'key-1', { limit: 5, windowSeconds: 60 });
+
+    expect(result).toMatchObject({ allowed: true, limit: 5 });
+  });
+});
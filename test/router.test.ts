@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { createRouter, runMiddleware, routePipeline } from '../src/router';
+import type { RouteDefinition, RequestContext, Middleware } from '../src/router';
+import type { Env } from '../src/types';
+
+function route(method: RouteDefinition['method'], path: string, extra: Partial<RouteDefinition> = {}): RouteDefinition {
+  return {
+    method,
+    path,
+    operationId: `${method} ${path}`,
+    summary: path,
+    scope: null,
+    handler: () => new Response('ok'),
+    ...extra,
+  };
+}
+
+function context(request: Request): RequestContext {
+  return {
+    request,
+    url: new URL(request.url),
+    env: {} as Env,
+    params: {},
+    principal: null,
+    corsHeaders: {},
+  };
+}
+
+describe('createRouter', () => {
+  const routes = [
+    route('GET', '/documents'),
+    route('GET', '/documents/outline'),
+    route('GET', '/documents/:id'),
+    route('DELETE', '/documents/:id'),
+    route('GET', '/sessions/:id/messages'),
+  ];
+  const match = createRouter(routes);
+
+  it('matches static paths before the parameterised ones they overlap with', () => {
+    const result = match('GET', '/documents/outline');
+    expect(result.kind).toBe('found');
+    expect(result.kind === 'found' && result.route).toBe(routes[1]);
+  });
+
+  it('extracts and decodes path parameters', () => {
+    const result = match('GET', '/documents/report%202024');
+    expect(result).toEqual({ kind: 'found', route: routes[2], params: { id: 'report 2024' } });
+  });
+
+  it('serves the same routes under the version prefix', () => {
+    expect(match('GET', '/v1/sessions/abc/messages')).toEqual({ kind: 'found', route: routes[4], params: { id: 'abc' } });
+    expect(match('GET', '/v1/documents').kind).toBe('found');
+  });
+
+  it('does not treat a path that merely starts with the prefix as versioned', () => {
+    expect(match('GET', '/v1documents').kind).toBe('not_found');
+  });
+
+  it('lists the allowed methods when only the method differs', () => {
+    expect(match('POST', '/documents/abc')).toEqual({ kind: 'method_not_allowed', allowed: ['GET', 'DELETE'] });
+  });
+
+  it('reports unknown paths and malformed percent-encoding as not found', () => {
+    expect(match('GET', '/nothing')).toEqual({ kind: 'not_found' });
+    expect(match('GET', '/documents/%E0%A4%A')).toEqual({ kind: 'not_found' });
+  });
+
+  it('does not let a parameter span segments', () => {
+    expect(match('GET', '/documents/a/b')).toEqual({ kind: 'not_found' });
+  });
+});
+
+describe('runMiddleware', () => {
+  it('runs middleware in order around the handler', async () => {
+    const calls: string[] = [];
+    const middleware: Middleware[] = ['first', 'second'].map(name => async (_context, next) => {
+      calls.push(`${name}:before`);
+      const response = await next();
+      calls.push(`${name}:after`);
+      return response;
+    });
+
+    const response = await runMiddleware(context(new Request('https://worker/x')), middleware, () => {
+      calls.push('handler');
+      return new Response('done');
+    });
+
+    expect(await response.text()).toBe('done');
+    expect(calls).toEqual(['first:before', 'second:before', 'handler', 'second:after', 'first:after']);
+  });
+
+  it('stops when middleware returns without calling next', async () => {
+    let handled = false;
+    const response = await runMiddleware(
+      context(new Request('https://worker/x')),
+      [async () => new Response('stopped', { status: 403 })],
+      () => {
+        handled = true;
+        return new Response('done');
+      }
+    );
+
+    expect(response.status).toBe(403);
+    expect(handled).toBe(false);
+  });
+});
+
+describe('routePipeline', () => {
+  const bodyRoute = route('POST', '/things', {
+    body: { type: 'object', required: ['name'], properties: { name: { type: 'string', minLength: 1 } } },
+  });
+
+  function post(body: string, contentType = 'application/json'): Request {
+    return new Request('https://worker/things', { method: 'POST', headers: { 'Content-Type': contentType }, body });
+  }
+
+  it('adds no middleware for routes without a body', () => {
+    expect(routePipeline(route('GET', '/things'))).toEqual([]);
+  });
+
+  it('puts the validated body on the context', async () => {
+    const ctx = context(post('{"name":"a"}'));
+    const response = await runMiddleware(ctx, routePipeline(bodyRoute), ({ body }) => Response.json(body));
+
+    expect(await response.json()).toEqual({ name: 'a' });
+  });
+
+  it('rejects invalid bodies before the handler runs', async () => {
+    const response = await runMiddleware(context(post('{"name":""}')), routePipeline(bodyRoute), () => {
+      throw new Error('handler should not run');
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: { code: 'validation_failed', details: { issues: [{ path: 'name', message: 'must not be empty' }] } },
+    });
+  });
+
+  it('rejects malformed JSON and other content types', async () => {
+    const handler = () => new Response('unreachable');
+
+    const malformed = await runMiddleware(context(post('{')), routePipeline(bodyRoute), handler);
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ error: { code: 'invalid_json' } });
+
+    const text = await runMiddleware(context(post('name=a', 'text/plain')), routePipeline(bodyRoute), handler);
+    expect(text.status).toBe(415);
+  });
+
+  it('formats errors with the route formatter when it has one', async () => {
+    const formatted = route('POST', '/things', {
+      body: bodyRoute.body,
+      formatError: error => Response.json({ message: error.message }, { status: error.status }),
+    });
+
+    const response = await runMiddleware(context(post('[]')), routePipeline(formatted), () => new Response('unreachable'));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ message: expect.any(String) });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { validate } from '../src/validation';
+import type { ObjectSchema } from '../src/validation';
+import { EMBED_REQUEST_SCHEMA, QUERY_REQUEST_SCHEMA, DELETE_DOCUMENT_REQUEST_SCHEMA, UPLOAD_FORM_SCHEMA } from '../src/types/requests';
+
+describe('validate', () => {
+  const schema: ObjectSchema = {
+    type: 'object',
+    required: ['name', 'tags'],
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 5 },
+      count: { type: 'integer', minimum: 1, maximum: 10 },
+      ratio: { type: 'number', exclusiveMinimum: 0 },
+      kind: { type: 'string', enum: ['a', 'b'] },
+      at: { type: 'string', format: 'date-time' },
+      tags: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3 },
+      limit: { anyOf: [{ type: 'integer' }, { type: 'null' }] },
+    },
+  };
+
+  it('accepts valid data and returns it unchanged', () => {
+    const data = { name: 'abc', count: 3, ratio: 0.5, kind: 'a', at: '2024-01-01T00:00:00Z', tags: ['x'], limit: null };
+    expect(validate(schema, data)).toEqual({ ok: true, value: data });
+  });
+
+  it('reports every problem with the path of the offending field', () => {
+    const result = validate(schema, { name: '', count: 2.5, tags: ['x', 1], extra: true });
+
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        { path: 'name', message: 'must not be empty' },
+        { path: 'count', message: 'must be an integer' },
+        { path: 'tags[1]', message: 'must be a string' },
+        { path: 'extra', message: 'is not allowed' },
+      ],
+    });
+  });
+
+  it('reports missing required fields', () => {
+    expect(validate(schema, {})).toEqual({
+      ok: false,
+      issues: [
+        { path: 'name', message: 'is required' },
+        { path: 'tags', message: 'is required' },
+      ],
+    });
+  });
+
+  it('checks bounds, enums and formats', () => {
+    const result = validate(schema, { name: 'toolong', count: 11, ratio: 0, kind: 'c', at: 'yesterday', tags: [] });
+
+    expect(result.ok === false && result.issues).toEqual([
+      { path: 'name', message: 'must be at most 5 characters' },
+      { path: 'count', message: 'must be at most 10' },
+      { path: 'ratio', message: 'must be greater than 0' },
+      { path: 'kind', message: 'must be one of a, b' },
+      { path: 'at', message: 'must be an ISO 8601 date-time' },
+      { path: 'tags', message: 'must not be empty' },
+    ]);
+  });
+
+  it('does not check the items of an oversized array', () => {
+    const result = validate(schema, { name: 'a', tags: [1, 2, 3, 4] });
+    expect(result.ok === false && result.issues).toEqual([{ path: 'tags', message: 'must have at most 3 items' }]);
+  });
+
+  it('describes the options of anyOf when no option has the value\'s type', () => {
+    const result = validate(schema, { name: 'a', tags: ['x'], limit: 'ten' });
+    expect(result.ok === false && result.issues).toEqual([{ path: 'limit', message: 'must be an integer or null' }]);
+  });
+
+  it('reports the problems of the only anyOf option with the value\'s type', () => {
+    const result = validate(schema, { name: 'a', tags: ['x'], limit: 1.5 });
+    expect(result.ok === false && result.issues).toEqual([{ path: 'limit', message: 'must be an integer' }]);
+  });
+
+  it('rejects non-objects at the root with an empty path', () => {
+    expect(validate(schema, [])).toEqual({ ok: false, issues: [{ path: '', message: 'must be an object' }] });
+  });
+
+  it('requires a file for binary fields', () => {
+    const form: ObjectSchema = { type: 'object', properties: { file: { type: 'string', format: 'binary' } } };
+
+    expect(validate(form, { file: new Blob(['text']) }).ok).toBe(true);
+    expect(validate(form, { file: 'text' })).toEqual({ ok: false, issues: [{ path: 'file', message: 'must be a file' }] });
+  });
+});
+
+describe('request schemas', () => {
+  it('accept a minimal embed request', () => {
+    expect(validate(EMBED_REQUEST_SCHEMA, { texts: ['hello'] }).ok).toBe(true);
+  });
+
+  it('reject an embed request without texts', () => {
+    const result = validate(EMBED_REQUEST_SCHEMA, { texts: [] });
+    expect(result.ok).toBe(false);
+    expect(result.ok === false && result.issues[0].path).toBe('texts');
+  });
+
+  it('reject document IDs that would name an internal record or another workspace\'s key', () => {
+    for (const documentId of ['__apikey__:abc', '__vector_count__', 'ws:team:doc']) {
+      const result = validate(EMBED_REQUEST_SCHEMA, { texts: ['x'], metadata: { documentId, documentName: 'x', documentType: 'text' } });
+      expect(result.ok === false && result.issues.map(issue => issue.path)).toEqual(['metadata.documentId']);
+    }
+    expect(validate(DELETE_DOCUMENT_REQUEST_SCHEMA, { documentId: '__workspace__:team' }).ok).toBe(false);
+    expect(validate(UPLOAD_FORM_SCHEMA, { file: new Blob(['x']), documentId: '__chunks__:x' }).ok).toBe(false);
+    expect(validate(DELETE_DOCUMENT_REQUEST_SCHEMA, { documentId: 'doc:42' }).ok).toBe(true);
+  });
+
+  it('bound the query limit', () => {
+    expect(validate(QUERY_REQUEST_SCHEMA, { query: 'x', limit: 5 }).ok).toBe(true);
+    expect(validate(QUERY_REQUEST_SCHEMA, { query: 'x', limit: 0 }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { chunkVectorIds, embedTexts, MAX_EMBEDDING_INPUTS } from '../src/vectorize';
+import type { EmbedMetadata } from '../src/types';
+import { testEnv } from './helpers';
+
+const metadata: EmbedMetadata = { documentId: 'report', documentName: 'Report', documentType: 'pdf' };
+const sentence = (pageNumber?: number) => ({ chunkStrategy: 'sentence', pageNumber });
+
+describe('chunkVectorIds', () => {
+  it('is deterministic and shares the document hash across chunks', async () => {
+    const env = testEnv();
+    const first = await chunkVectorIds(env, metadata, ['one', 'two'], [sentence(), sentence()]);
+    const second = await chunkVectorIds(env, metadata, ['one', 'two'], [sentence(), sentence()]);
+
+    expect(second).toEqual(first);
+    expect(first[0]).toMatch(/^[0-9a-f]{16}-[0-9a-f]{40}$/);
+    expect(first[0].split('-')[0]).toBe(first[1].split('-')[0]);
+    expect(first[0]).not.toBe(first[1]);
+  });
+
+  it('keeps a chunk\'s ID when only its position or the timestamp changes', async () => {
+    const env = testEnv();
+    const before = await chunkVectorIds(env, { ...metadata, timestamp: '2024-01-01T00:00:00Z' }, ['one', 'two'], [sentence(), sentence()]);
+    const after = await chunkVectorIds(env, { ...metadata, timestamp: '2024-02-01T00:00:00Z' }, ['new', 'one', 'two'], [sentence(), sentence(), sentence()]);
+
+    expect(after.slice(1)).toEqual(before);
+  });
+
+  it('tells repeated text apart by occurrence', async () => {
+    const ids = await chunkVectorIds(testEnv(), metadata, ['same', 'same'], [sentence(), sentence()]);
+
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it('changes when anything stored with the vector changes', async () => {
+    const env = testEnv();
+    const [base] = await chunkVectorIds(env, metadata, ['one'], [sentence(1)]);
+
+    const variants = await Promise.all([
+      chunkVectorIds(env, metadata, ['one'], [sentence(2)]),
+      chunkVectorIds(env, metadata, ['one'], [{ chunkStrategy: 'token', pageNumber: 1 }]),
+      chunkVectorIds(env, metadata, ['one'], [{ ...sentence(1), heading: 'Intro' }]),
+      chunkVectorIds(env, { ...metadata, documentName: 'Report v2' }, ['one'], [sentence(1)]),
+      chunkVectorIds(env, { ...metadata, author: 'Kim' } as EmbedMetadata, ['one'], [sentence(1)]),
+    ]);
+
+    for (const [id] of variants) {
+      expect(id).not.toBe(base);
+    }
+  });
+
+  it('differs between workspaces for the same document ID', async () => {
+    const [inDefault] = await chunkVectorIds(testEnv(), metadata, ['one'], [sentence()]);
+    const [inOther] = await chunkVectorIds(
+      testEnv({ WORKSPACE: { id: 'team', name: 'Team', createdAt: '2024-01-01T00:00:00Z' } }),
+      metadata,
+      ['one'],
+      [sentence()]
+    );
+
+    expect(inOther.split('-')[0]).not.toBe(inDefault.split('-')[0]);
+  });
+});
+
+describe('embedTexts', () => {
+  it('embeds large inputs in batches the model accepts, keeping their order', async () => {
+    const batchSizes: number[] = [];
+    const AI = {
+      run: async (_model: string, params: { text: string[] }) => {
+        if (params.text.length > MAX_EMBEDDING_INPUTS) {
+          throw new Error('Too many inputs');
+        }
+        batchSizes.push(params.text.length);
+        return { data: params.text.map(text => [Number(text)]) };
+      },
+    } as unknown as Ai;
+    const texts = Array.from({ length: 250 }, (_, i) => String(i));
+
+    const embeddings = await embedTexts(texts, testEnv({ AI }));
+
+    expect(batchSizes).toEqual([100, 100, 50]);
+    expect(embeddings.map(([value]) => value)).toEqual(texts.map(Number));
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { isReservedDocumentId, withWorkspace, workspaceKey } from '../src/workspaces';
+import { getDocument, putDocumentRecord } from '../src/documents';
+import { updateDocumentRetention } from '../src/retention';
+import { embedAndStore } from '../src/vectorize';
+import type { Env, DocumentRecord } from '../src/types';
+import { testEnv } from './helpers';
+
+const record: DocumentRecord = {
+  name: 'Team plan',
+  type: 'pdf',
+  chunksCount: 1,
+  chunkStrategy: 'sentence',
+  uploadedAt: '2024-01-01T00:00:00Z',
+  vectorIds: ['v1'],
+};
+
+describe('isReservedDocumentId', () => {
+  it('reserves internal keys and other workspaces\' key prefix', () => {
+    expect(isReservedDocumentId('__apikey__:abc')).toBe(true);
+    expect(isReservedDocumentId('__chunks__:doc')).toBe(true);
+    expect(isReservedDocumentId('ws:team:doc')).toBe(true);
+  });
+
+  it('allows ordinary document IDs, including ones with colons', () => {
+    expect(isReservedDocumentId('report-2024')).toBe(false);
+    expect(isReservedDocumentId('doc:42')).toBe(false);
+    expect(isReservedDocumentId('_draft')).toBe(false);
+  });
+});
+
+describe('cross-workspace isolation', () => {
+  let env: Env;
+  let teamEnv: Env;
+
+  beforeEach(async () => {
+    env = testEnv();
+    teamEnv = withWorkspace(env, { id: 'team', name: 'Team', createdAt: '2024-01-01T00:00:00Z' });
+    await putDocumentRecord(teamEnv, 'plan', record);
+  });
+
+  it('stores other workspaces\' documents under a key the default workspace could name', () => {
+    expect(workspaceKey(teamEnv, 'plan')).toBe('ws:team:plan');
+  });
+
+  it('does not let the default workspace read another workspace\'s document', async () => {
+    expect((await getDocument(teamEnv, 'plan')).ok).toBe(true);
+    expect(await getDocument(env, 'ws:team:plan')).toEqual({ ok: false, status: 404, error: 'Document ws:team:plan not found' });
+  });
+
+  it('does not let the default workspace change another workspace\'s retention', async () => {
+    const result = await updateDocumentRetention(env, 'ws:team:plan', { pinned: true });
+
+    expect(result.success).toBe(false);
+    expect(await env.DOC_METADATA.get('ws:team:plan', 'json')).toEqual(record);
+  });
+
+  it('refuses to ingest under a reserved document ID', async () => {
+    for (const documentId of ['ws:team:plan', '__apikey__:abc']) {
+      const result = await embedAndStore(['text'], { documentId, documentName: 'x', documentType: 'text' }, env);
+      expect(result).toEqual({ success: false, error: `Invalid document ID: ${documentId}` });
+    }
+    expect(await env.DOC_METADATA.get('ws:team:plan', 'json')).toEqual(record);
+  });
+});